@@ -1,7 +1,23 @@
 import type { Meta, StoryObj } from '@storybook/react';
-import { DataTable, type Column } from './DataTable';
-import { useState } from 'react';
+import {
+  DataTable,
+  type Column,
+  type DataTableBulkAction,
+  type DataTableHandle,
+  type DataTableRowAction,
+  type DataTableViewStorage,
+  type DataTableViewStore,
+} from './DataTable';
+import { useRef, useState } from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter, useLocation, useNavigate } from 'react-router-dom';
+import { z } from 'zod';
 import { Badge } from './badge';
+import { Button } from './button';
+import { Toaster } from './toaster';
+import { useDataTableQuery, type DataTableQueryParams } from '@/hooks/use-data-table-query';
+import { useDataTableUrlState } from '@/hooks/use-data-table-url-state';
+import { toast } from '@/hooks/use-toast';
 
 // Sample data types
 interface User {
@@ -75,6 +91,17 @@ const productData: Product[] = [
   { id: 'P005', name: 'Yoga Mat', category: 'Sports', price: 29.99, stock: 89, rating: 4.7 },
 ];
 
+// Larger data set for paging demos
+const manyUsers: User[] = Array.from({ length: 47 }, (_, i) => {
+  const base = userData[i % userData.length];
+  return {
+    ...base,
+    id: i + 1,
+    name: `${base.name} ${i + 1}`,
+    email: `user${i + 1}@example.com`,
+  };
+});
+
 const meta: Meta<typeof DataTable> = {
   title: 'Components/DataTable',
   component: DataTable,
@@ -90,12 +117,29 @@ A comprehensive data table component with sorting, selection, and customizable r
 ## Features
 
 - **Column Sorting**: Click headers to sort by column (ascending/descending/none)
-- **Row Selection**: Single or multiple row selection with checkboxes
+- **Multi-column Sorting**: Shift+click (or \`multiSort\`) to sort by several columns with priority numbers
+- **Row Selection**: Controlled single or multiple selection by key, shift-click ranges and "select all matching"
+- **Bulk Actions**: Buttons and a menu of actions for the selected rows, with confirmation and progress
+- **Row Actions**: A trailing "…" menu and right-click context menu per row, row click handlers and row links
 - **Custom Rendering**: Flexible cell content with custom render functions
-- **Loading States**: Built-in loading spinner and skeleton states
+- **Loading States**: Skeleton rows on first load and a non-blocking refreshing overlay
+- **Error State**: \`error\` message in place of the rows with an optional retry button
 - **Empty States**: Customizable empty state messaging
-- **Responsive Design**: Horizontal scrolling on smaller screens
-- **Accessibility**: Full keyboard navigation and screen reader support
+- **Responsive Design**: Rows become cards of label/value pairs on phones
+- **Pagination**: Built-in pager with page-size selector, first/last and jump-to-page
+- **Virtualization**: Renders only visible rows for tens of thousands of records
+- **Sticky Header and Columns**: \`stickyHeader\` and \`maxHeight\` scroll the body under the header, pinned columns stay put and edge shadows mark hidden content
+- **Filtering**: Global fuzzy search plus per-column text, select, range and date-range filters
+- **Inline Editing**: Text, select, checkbox and date editors with zod validation and optimistic saves
+- **Copy and Paste**: Select cell ranges and copy them to spreadsheets; paste blocks into editable columns with undo
+- **Column Layout**: Show/hide, drag to reorder, drag to resize and pin columns, persisted to localStorage
+- **Expandable Rows**: Detail panels and nested tree data with lazy-loaded children and cascading selection
+- **Export**: Download sorted, filtered rows as CSV, TSV, JSON or SpreadsheetML
+- **Grouping**: Collapsible group headers by one or more columns, with sum, avg, min, max, count or custom aggregates
+- **Server-side Mode**: Controlled sort, page and filter state for paginated APIs (\`manual\`)
+- **Saved Views**: Named presets of sort, filters, search and columns with a default view and JSON sharing
+- **Shareable URLs**: \`useDataTableUrlState\` keeps sort, filters, search, page and hidden columns in the query string
+- **Accessibility**: WAI-ARIA grid with roving focus, keyboard selection and row/column counts
 
 ## Column Configuration
 
@@ -106,14 +150,150 @@ Each column supports:
 - \`render\`: Custom render function for cell content
 - \`align\`: Text alignment (left, center, right)
 - \`width\`: Fixed width for the column
+- \`sortType\`: \`string\`, \`natural\`, \`number\` or \`date\` comparison
+- \`sortFn\`: Custom ascending comparator \`(a, b) => number\`
+- \`filter\`: \`text\`, \`select\`, \`multiSelect\`, \`range\` or \`dateRange\`, or a config with \`options\`, \`min\`/\`max\`/\`step\` and \`filterFn\`
+- \`searchable\`: Include the column in the global search (default \`true\`)
+- \`hideable\`, \`resizable\`, \`minWidth\`, \`pinned\`: Column layout options
+- \`exportValue\`, \`exportable\`: Plain value written to exports, or leave the column out
+- \`groupable\`: Offer "Group by column" in the header menu
+- \`hideOnMobile\`, \`mobilePriority\`, \`mobileField\`: Card layout options for phones
+- \`aggregate\`, \`renderAggregate\`: \`sum\`, \`avg\`, \`min\`, \`max\`, \`count\` or a function, shown in group headers and the footer
+- \`editable\`: Enable inline editing, optionally with an editor \`type\`, \`options\`, zod \`schema\`, \`validate\` and \`parse\`
+
+## Selection
+
+Selection is tracked by row key (\`rowKey\`, default \`id\`), so it survives paging, sorting and new
+\`data\`. Control it with \`selectedKeys\` / \`onSelectionChange(keys, rows)\`. \`selectionMode\` is
+\`multiple\` or \`single\`, \`isRowSelectable\` disables individual rows, and shift-click selects a
+range. The header checkbox selects the current page; a banner then offers every matching row,
+which server-side sets \`allMatchingSelected\` instead of listing keys.
+
+## Bulk Actions
+
+\`bulkActions\` adds actions to the selection bar. Each action has an \`id\`, \`label\` and optional
+\`icon\`; \`inMenu\` moves it into a "More" dropdown. \`onAction(rows)\` runs once for the whole
+selection, while \`onRowAction(row)\` runs row by row with a progress bar and reports failed rows
+in a toast by \`getRowLabel\` (the first column's value by default), leaving them selected. \`destructive\` actions (or any with \`confirm\`) ask first in an
+\`AlertDialog\`.
+
+## Row Actions
+
+\`rowActions(row)\` returns the actions for a row (\`id\`, \`label\`, \`icon\`, \`shortcut\`,
+\`destructive\`, \`disabled\`, \`separator\` and \`onSelect(row)\`). They appear in a trailing "…"
+column and in a context menu on right-click. \`onRowClick\` and \`onRowDoubleClick\` fire for clicks
+outside the row's controls; Enter on a cell without controls counts as a click. \`getRowHref\` turns
+the first column into a real link, so middle-click and "Open in new tab" work, and clicking elsewhere
+on the row follows it (Ctrl/Cmd-click opens a new tab). Call \`event.preventDefault()\` in
+\`onRowClick\` to route the link yourself. A double-click only runs \`onRowClick\` for its first click.
+
+## Server-side Mode
+
+Set \`manual\` to render \`data\` as-is. Sorting, paging and filtering become controlled
+props (\`sortConfig\`, \`pageIndex\`, \`pageSize\`, \`filters\`) reported through
+\`onSortChange\`, \`onPageChange\` and \`onFilterChange\`, and \`totalCount\` drives the pager.
+The \`useDataTableQuery\` hook wires all of this to react-query. \`select\` and \`multiSelect\`
+filters only list their \`filter.options\` here, and \`range\` filters need \`min\` and \`max\`, since
+the loaded page doesn't hold every value.
+
+## Saved Views
+
+\`views={{ storageKey }}\` adds a Views menu to the toolbar. A view captures the sort, filters, search
+and column layout (visibility, order, widths and pins). From the menu users can apply, save, update,
+rename and delete views, pick a default view that is applied when the table loads, and copy a view as
+JSON to import elsewhere. Views are kept in localStorage; pass a \`storage\` adapter with \`load\` and
+\`save\` (either may return a promise) to keep them on a backend.
+
+## URL State
+
+\`useDataTableUrlState({ columns })\` returns \`tableProps\` that store the sort, column filters, search,
+page, page size and hidden columns in the URL search params through react-router, so any view can be
+shared as a link and back/forward restores earlier views. The format is compact and readable
+(\`?sort=-lastLogin&f.role=Admin&page=2\`) and leaves defaults out. Search is written once typing
+pauses (\`searchDebounce\`), \`prefix\` separates several tables on one page, and \`replace\` avoids
+a history entry per change.
+
+## Loading and Error States
+
+\`loading\` renders skeleton rows (\`loadingRows\`, default the page size) while there is no data
+yet, and a non-blocking "Refreshing" overlay once rows are on screen. \`error\` (an \`Error\` or a
+message) replaces the rows, with a "Try again" button when \`onRetry\` is set. \`emptyMessage\`,
+\`emptyDescription\` and \`emptyIcon\` customize the empty state.
+
+## Expandable Rows and Tree Data
+
+\`renderExpandedRow\` shows a detail panel under an expanded row. \`getSubRows\` turns the table
+into a tree: children are indented, sorted and filtered with their parents, and a parent stays
+visible while any descendant matches a filter. \`loadSubRows\` fetches children on first expand
+(\`hasSubRows\` decides which rows get a toggle). Selecting a parent selects its descendants and
+partly selected parents show an indeterminate checkbox. Expansion can be controlled with
+\`expandedKeys\` / \`onExpandedChange\`.
+
+## Export
+
+\`exportable\` adds an Export menu to the toolbar; a ref exposes \`exportData(options)\`. Exports
+contain the sorted and filtered rows across all pages (or only the selected rows) for the visible
+columns. Options: \`format\` (\`csv\`, \`tsv\`, \`json\`, \`excel\`), \`rows\`, \`filename\`, \`bom\`,
+\`locale\` for number formatting and \`download: false\` to only get the content back.
+
+## Grouping and Aggregates
+
+\`groupBy\` lists the columns to group by, outermost first (controlled with \`onGroupByChange\`, or
+from the header menu of \`groupable\` columns). Group headers sit in the table body with a collapse
+toggle, the row count and each column's \`aggregate\`; a checkbox selects the whole group. Groups span
+every matching row in sort order and paging keeps their rows together, so counts and aggregates are
+totals; sort by the grouped column to order the groups. In \`manual\` mode they cover the loaded page
+and the count says so. The footer row shows the aggregates over every matching row
+(\`aggregateFooter={false}\` hides it).
+
+## Mobile Layout
+
+Below the \`md\` breakpoint (\`useIsMobile\`) each row renders as a card. The \`primary\` field
+(\`mobileField\`, or the first field) is the card title, \`secondary\` fields sit under it and the rest
+become label/value pairs ordered by \`mobilePriority\`; \`hideOnMobile\` leaves a column out. Selection,
+expansion, grouping and bulk actions keep working, and sorting moves into a select above the cards.
+Set \`mobileLayout="table"\` to keep the scrolling table; virtualized tables always do.
+
+## Scrolling and Sticky Columns
+
+The table scrolls inside a \`ScrollArea\` in both directions. \`maxHeight\` caps its height so the body
+scrolls, and \`stickyHeader\` keeps the header row (and the aggregate footer) in view meanwhile.
+Columns with \`pinned: 'left'\` or \`'right'\` (or pinned from the header menu) stick to their edge
+during horizontal scroll, taking the selection or actions column with them. A shadow appears on each
+edge that has content scrolled out of view.
+
+## Copy and Paste
+
+\`cellSelection\` lets users select a rectangle of cells with Shift+arrows, Shift+click or by
+dragging. Ctrl+C copies it as tab-separated text plus an HTML table, using each column's
+\`exportValue\` (Ctrl+Shift+C includes the column titles). Ctrl+V pastes a block from a spreadsheet
+with its top left corner at the selection, or fills the selection with a single value. Every target
+column must be \`editable\` and every value must pass the editor's validation, otherwise nothing is
+pasted; a paste goes through \`onCellEdit\` cell by cell and Ctrl+Z (or Undo in the toast) restores
+the previous values. Toasts need a \`Toaster\` on the page.
+
+## Virtualization
+
+Set \`virtualized\` to mount only the rows inside a fixed-height scroll container.
+Options: \`height\`, \`rowHeight\`, \`measureRows\` for variable-height rows and \`overscan\`.
+A ref exposes \`scrollToRow(key)\`.
 
 ## Accessibility Features
 
-- Keyboard navigation for sortable headers
-- ARIA labels and roles for screen readers
-- Proper focus management
-- Sort state announcements
-- Selection state feedback
+The table follows the WAI-ARIA grid pattern. Only one cell is in the tab order; once inside:
+
+- Arrow keys move between cells, Home/End to the first/last cell of the row
+- Ctrl+Home/Ctrl+End jump to the first/last cell, PageUp/PageDown move ten rows
+- Space toggles the focused row's selection (a whole group on a group header, select all from
+  the header checkbox cell)
+- Shift+Up/Down extends the selection, Ctrl+A selects every row
+- With \`cellSelection\`, Shift+arrows in a data cell extend a cell range instead; Ctrl+C, Ctrl+V
+  and Ctrl+Z copy, paste and undo, and Escape clears the range
+- Enter sorts a header, edits a cell, collapses a group or opens a clickable row; F2 (or Enter
+  elsewhere) moves into the cell's controls, Tab cycles through them and Escape returns to the cell
+- The context menu key (or Shift+F10) opens the focused row's actions
+- \`aria-rowcount\` and \`aria-rowindex\` describe the full data set, so positions stay correct
+  with pagination and virtualization
 
 ## Use Cases
 
@@ -130,7 +310,7 @@ Each column supports:
   argTypes: {
     loading: {
       control: 'boolean',
-      description: 'Show loading state',
+      description: 'Show skeleton rows, or a refreshing overlay when there is data',
     },
     selectable: {
       control: 'boolean',
@@ -140,6 +320,38 @@ Each column supports:
       control: 'text',
       description: 'Message shown when no data',
     },
+    emptyDescription: {
+      control: 'text',
+      description: 'Supporting text under the empty message',
+    },
+    searchable: {
+      control: 'boolean',
+      description: 'Show the global search box',
+    },
+    columnControls: {
+      control: 'boolean',
+      description: 'Enable the column chooser, reordering, resizing and pinning',
+    },
+    exportable: {
+      control: 'boolean',
+      description: 'Show the export menu in the toolbar',
+    },
+    stickyHeader: {
+      control: 'boolean',
+      description: 'Keep the header row visible while the body scrolls',
+    },
+    maxHeight: {
+      control: 'number',
+      description: 'Height in pixels the table grows to before its body scrolls',
+    },
+    cellSelection: {
+      control: 'boolean',
+      description: 'Select cell ranges to copy, and paste into editable columns',
+    },
+    pagination: {
+      control: 'object',
+      description: 'Enable the pager, optionally with page-size options, first/last buttons and page jump',
+    },
   },
 };
 
@@ -244,11 +456,66 @@ export const LoadingState: Story = {
     data: [],
     columns: userColumns,
     loading: true,
+    selectable: true,
   },
   parameters: {
     docs: {
       description: {
-        story: 'Loading state with spinner animation.',
+        story: 'Skeleton rows in the shape of the columns while the first data loads, so the header stays in place.',
+      },
+    },
+  },
+};
+
+// Refreshing
+export const Refreshing: Story = {
+  args: {
+    data: userData,
+    columns: userColumns,
+    loading: true,
+  },
+  parameters: {
+    docs: {
+      description: {
+        story: 'With data already on screen, `loading` dims the rows behind a "Refreshing" indicator that does not block scrolling or clicks.',
+      },
+    },
+  },
+};
+
+// Error State
+const ErrorStateTable = () => {
+  const [state, setState] = useState<{ data: User[]; loading: boolean; error: Error | null }>({
+    data: [],
+    loading: false,
+    error: new Error('The server took too long to respond.'),
+  });
+
+  // Simulated refetch that succeeds on retry
+  const retry = () => {
+    setState({ data: [], loading: true, error: null });
+    setTimeout(() => setState({ data: userData, loading: false, error: null }), 1200);
+  };
+
+  return (
+    <div className="p-6">
+      <DataTable
+        data={state.data}
+        columns={userColumns}
+        loading={state.loading}
+        error={state.error}
+        onRetry={retry}
+      />
+    </div>
+  );
+};
+
+export const ErrorState: Story = {
+  render: () => <ErrorStateTable />,
+  parameters: {
+    docs: {
+      description: {
+        story: '`error` replaces the rows with the error message; `onRetry` adds a "Try again" button. Retrying here shows skeleton rows, then the data.',
       },
     },
   },
@@ -259,7 +526,8 @@ export const EmptyState: Story = {
   args: {
     data: [],
     columns: userColumns,
-    emptyMessage: 'No users found. Add some users to get started.',
+    emptyMessage: 'No users found',
+    emptyDescription: 'Invite your team to start managing their access here.',
   },
   parameters: {
     docs: {
@@ -453,10 +721,19 @@ export const SortableDemo: Story = {
   render: () => {
     const [sortInfo, setSortInfo] = useState<string>('Click column headers to sort');
     
-    const trackingColumns: Column<User>[] = userColumns.map(col => ({
-      ...col,
-      sortable: true,
-    }));
+    const trackingColumns: Column<User>[] = [
+      ...userColumns.map(col => ({
+        ...col,
+        sortable: true,
+      })),
+      {
+        key: 'lastLogin',
+        title: 'Last Login',
+        sortable: true,
+        sortType: 'date',
+        render: (date: string) => new Date(date).toLocaleString('en-US'),
+      },
+    ];
 
     return (
       <div className="p-6 space-y-4">
@@ -468,10 +745,18 @@ export const SortableDemo: Story = {
         <DataTable
           data={userData}
           columns={trackingColumns}
+          onSortStackChange={stack =>
+            setSortInfo(
+              stack.length > 0
+                ? `Sorted by ${stack.map(sort => `${String(sort.key)} (${sort.direction})`).join(', then ')}`
+                : 'Click column headers to sort'
+            )
+          }
         />
         
         <div className="text-xs text-muted-foreground">
           💡 Tip: Click a header once for ascending, twice for descending, three times to remove sorting.
+          Hold Shift while clicking to add more columns, e.g. role then name.
         </div>
       </div>
     );
@@ -479,7 +764,7 @@ export const SortableDemo: Story = {
   parameters: {
     docs: {
       description: {
-        story: 'Demonstration of sorting functionality. All columns are sortable.',
+        story: 'Demonstration of sorting functionality. All columns are sortable, Shift+click sorts by several columns, and Last Login sorts by date.',
       },
     },
   },
@@ -499,4 +784,1067 @@ export const InteractiveDemo: Story = {
       },
     },
   },
-};
\ No newline at end of file
+};
+
+// Server-side mode
+// Simulates a paginated API that sorts and slices on the "server"
+const fetchUsers = async ({ sortStack, pageIndex, pageSize }: DataTableQueryParams<User>) => {
+  await new Promise(resolve => setTimeout(resolve, 400));
+
+  const rows = [...manyUsers];
+  rows.sort((a, b) => {
+    for (const { key, direction } of sortStack) {
+      const comparison = String(a[key]).localeCompare(String(b[key]), undefined, { numeric: true });
+      if (comparison !== 0) return direction === 'desc' ? -comparison : comparison;
+    }
+    return 0;
+  });
+
+  return {
+    rows: rows.slice(pageIndex * pageSize, (pageIndex + 1) * pageSize),
+    totalCount: rows.length,
+  };
+};
+
+// Pagination
+export const Paginated: Story = {
+  args: {
+    data: manyUsers,
+    columns: userColumns,
+    selectable: true,
+    pagination: {
+      pageSize: 5,
+      pageSizeOptions: [5, 10, 25],
+      showFirstLast: true,
+      showPageJump: true,
+    },
+  },
+  parameters: {
+    docs: {
+      description: {
+        story: 'Client-side pagination composed from the `Pagination` primitives. Sorting applies to the full data set and selected rows stay selected when switching pages. Selecting the page from the header offers to select every matching row.',
+      },
+    },
+  },
+};
+
+const ServerSideTable = () => {
+  const { tableProps } = useDataTableQuery<User>({
+    queryKey: ['storybook-users'],
+    queryFn: fetchUsers,
+    initialPageSize: 10,
+  });
+
+  return (
+    <div className="p-6 space-y-4">
+      <h3 className="text-lg font-semibold">Server-side Users</h3>
+      <DataTable
+        columns={userColumns}
+        selectable
+        pagination={{ pageSizeOptions: [5, 10, 20] }}
+        {...tableProps}
+      />
+    </div>
+  );
+};
+
+const storyQueryClient = new QueryClient();
+
+export const ServerSide: Story = {
+  render: () => (
+    <QueryClientProvider client={storyQueryClient}>
+      <ServerSideTable />
+    </QueryClientProvider>
+  ),
+  parameters: {
+    docs: {
+      description: {
+        story: 'Manual mode backed by a simulated paginated API through `useDataTableQuery`. The table renders each page as returned and reports sort and page changes back to the hook. The previous page stays visible behind the refreshing overlay while the next one loads. Selecting the page offers "select all matching rows", which covers rows that were never loaded.',
+      },
+    },
+  },
+};
+
+// Virtualization
+const hugeUserData: User[] = Array.from({ length: 20000 }, (_, i) => {
+  const base = userData[i % userData.length];
+  return {
+    ...base,
+    id: i + 1,
+    name: `${base.name} ${i + 1}`,
+    email: `user${i + 1}@example.com`,
+  };
+});
+
+const VirtualizedTable = () => {
+  const tableRef = useRef<DataTableHandle>(null);
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">20,000 Users</h3>
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={() => tableRef.current?.scrollToRow(10000, { align: 'center' })}>
+            Scroll to #10000
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => tableRef.current?.scrollToRow(20000)}>
+            Scroll to last
+          </Button>
+        </div>
+      </div>
+      <DataTable
+        ref={tableRef}
+        data={hugeUserData}
+        columns={userColumns}
+        selectable
+        virtualized={{ height: 480 }}
+      />
+    </div>
+  );
+};
+
+export const Virtualized: Story = {
+  render: () => <VirtualizedTable />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'Virtualized body with 20,000 rows. Only the rows in view are mounted, the header stays sticky, and `scrollToRow` is available through a ref.',
+      },
+    },
+  },
+};
+
+// Filtering
+const FilteringTable = () => {
+  const [filters, setFilters] = useState<Record<string, unknown>>({});
+
+  const filterColumns: Column<User>[] = [
+    { key: 'name', title: 'Name', sortable: true, filter: 'text' },
+    { key: 'email', title: 'Email', sortable: true },
+    { key: 'role', title: 'Role', sortable: true, filter: 'multiSelect' },
+    {
+      key: 'status',
+      title: 'Status',
+      sortable: true,
+      filter: {
+        type: 'select',
+        options: [
+          { label: 'Active', value: 'active' },
+          { label: 'Inactive', value: 'inactive' },
+          { label: 'Pending', value: 'pending' },
+        ],
+      },
+      render: userColumns[3].render,
+    },
+    { key: 'id', title: 'ID', sortable: true, align: 'right', filter: 'range', searchable: false },
+    {
+      key: 'lastLogin',
+      title: 'Last Login',
+      sortable: true,
+      sortType: 'date',
+      filter: 'dateRange',
+      searchable: false,
+      render: (date: string) => new Date(date).toLocaleDateString('en-US'),
+    },
+  ];
+
+  return (
+    <div className="p-6 space-y-4">
+      <DataTable
+        data={manyUsers}
+        columns={filterColumns}
+        searchable
+        searchPlaceholder="Search users..."
+        filters={filters}
+        onFilterChange={setFilters}
+        pagination={{ pageSize: 10 }}
+      />
+      <pre className="text-xs text-muted-foreground">{JSON.stringify(filters, null, 2)}</pre>
+    </div>
+  );
+};
+
+export const Filtering: Story = {
+  render: () => <FilteringTable />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'Toolbar with a global fuzzy search and per-column filters declared on the columns. Active filters appear as removable chips, and the `filters` state is controlled by the story.',
+      },
+    },
+  },
+};
+
+// Inline editing
+interface EditableUser extends User {
+  verified: boolean;
+}
+
+const EditableTable = () => {
+  const [users, setUsers] = useState<EditableUser[]>(() =>
+    userData.map((user, index) => ({ ...user, verified: index % 2 === 0 }))
+  );
+
+  const editableColumns: Column<EditableUser>[] = [
+    {
+      key: 'name',
+      title: 'Name',
+      editable: { schema: z.string().trim().min(2, 'Name must be at least 2 characters') },
+    },
+    {
+      key: 'email',
+      title: 'Email',
+      editable: { schema: z.string().email('Enter a valid email address') },
+    },
+    {
+      key: 'role',
+      title: 'Role',
+      editable: {
+        type: 'select',
+        options: ['Admin', 'Editor', 'Viewer'].map(role => ({ label: role, value: role })),
+      },
+    },
+    { key: 'verified', title: 'Verified', align: 'center', editable: true },
+    {
+      key: 'lastLogin',
+      title: 'Last Login',
+      editable: { type: 'date' },
+      render: (date: string) => new Date(date).toLocaleDateString('en-US'),
+    },
+  ];
+
+  // Simulated API call. Saving any value containing "fail" is rejected to show the rollback.
+  const handleCellEdit = async (row: EditableUser, key: keyof EditableUser, value: unknown) => {
+    await new Promise(resolve => setTimeout(resolve, 600));
+    if (String(value).toLowerCase().includes('fail')) {
+      throw new Error('The server rejected this change');
+    }
+    setUsers(current => current.map(user => (user.id === row.id ? { ...user, [key]: value } : user)));
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Focus a cell and press Enter or F2 (or double-click) to edit. Tab moves to the next editable cell.
+      </p>
+      <DataTable data={users} columns={editableColumns} onCellEdit={handleCellEdit} />
+    </div>
+  );
+};
+
+export const InlineEditing: Story = {
+  render: () => <EditableTable />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'Editable grid with zod validation. Edits appear immediately and are rolled back with an error if `onCellEdit` rejects — try saving a name containing "fail".',
+      },
+    },
+  },
+};
+
+// Column layout
+export const ColumnLayout: Story = {
+  args: {
+    data: userData,
+    columns: [
+      { key: 'name', title: 'Name', sortable: true, hideable: false, pinned: 'left', minWidth: 120 },
+      ...userColumns.slice(1),
+      {
+        key: 'lastLogin',
+        title: 'Last Login',
+        sortable: true,
+        sortType: 'date',
+        render: (date: string) => new Date(date).toLocaleDateString('en-US'),
+      },
+    ] as Column<User>[],
+    selectable: true,
+    columnControls: true,
+    layoutStorageKey: 'storybook-data-table-layout',
+  },
+  parameters: {
+    docs: {
+      description: {
+        story: 'Toggle columns from the Columns menu, drag headers to reorder, drag header borders to resize (or focus the border and use the arrow keys), and pin from the header menu. The layout is saved to localStorage and survives reloads.',
+      },
+    },
+  },
+};
+
+// Expandable rows
+interface OrderLine {
+  sku: string;
+  product: string;
+  quantity: number;
+  price: number;
+}
+
+interface Order {
+  id: string;
+  customer: string;
+  status: 'active' | 'inactive' | 'pending';
+  total: number;
+  lines: OrderLine[];
+}
+
+const orderData: Order[] = userData.map((user, index) => {
+  const lines = productData.slice(0, (index % 3) + 1).map((product, lineIndex) => ({
+    sku: product.id,
+    product: product.name,
+    quantity: lineIndex + 1,
+    price: product.price,
+  }));
+  return {
+    id: `ORD-${1040 + index}`,
+    customer: user.name,
+    status: user.status,
+    total: lines.reduce((sum, line) => sum + line.quantity * line.price, 0),
+    lines,
+  };
+});
+
+const orderColumns: Column<Order>[] = [
+  { key: 'id', title: 'Order', sortable: true },
+  { key: 'customer', title: 'Customer', sortable: true },
+  {
+    key: 'status',
+    title: 'Status',
+    render: (status: string) => <Badge variant={status === 'active' ? 'default' : 'secondary'}>{status}</Badge>,
+  },
+  {
+    key: 'total',
+    title: 'Total',
+    sortable: true,
+    align: 'right',
+    render: (total: number) => `$${total.toFixed(2)}`,
+  },
+];
+
+export const ExpandableRows: Story = {
+  args: {
+    data: orderData,
+    columns: orderColumns,
+    renderExpandedRow: (order: Order) => (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="py-1 font-medium">Product</th>
+            <th className="py-1 font-medium text-right">Qty</th>
+            <th className="py-1 font-medium text-right">Price</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.lines.map(line => (
+            <tr key={line.sku}>
+              <td className="py-1">{line.product}</td>
+              <td className="py-1 text-right tabular-nums">{line.quantity}</td>
+              <td className="py-1 text-right tabular-nums">${line.price.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    ),
+  },
+  parameters: {
+    docs: {
+      description: {
+        story: 'Orders with their line items in a detail panel. Use the header toggle to expand or collapse every row.',
+      },
+    },
+  },
+};
+
+// Tree data
+interface OrgUnit {
+  id: string;
+  name: string;
+  lead: string;
+  headcount: number;
+  children?: OrgUnit[];
+}
+
+const orgData: OrgUnit[] = [
+  {
+    id: 'eng',
+    name: 'Engineering',
+    lead: 'John Doe',
+    headcount: 42,
+    children: [
+      {
+        id: 'eng-platform',
+        name: 'Platform',
+        lead: 'Jane Smith',
+        headcount: 18,
+        children: [
+          { id: 'eng-platform-infra', name: 'Infrastructure', lead: 'Charlie Wilson', headcount: 7 },
+          { id: 'eng-platform-data', name: 'Data', lead: 'Alice Brown', headcount: 11 },
+        ],
+      },
+      { id: 'eng-product', name: 'Product Engineering', lead: 'Bob Johnson', headcount: 24 },
+    ],
+  },
+  {
+    id: 'sales',
+    name: 'Sales',
+    lead: 'Diana Prince',
+    headcount: 15,
+    children: [
+      { id: 'sales-emea', name: 'EMEA', lead: 'Ethan Hunt', headcount: 6 },
+      { id: 'sales-americas', name: 'Americas', lead: 'Fiona Gallagher', headcount: 9 },
+    ],
+  },
+  // Children of these units are loaded on first expand
+  { id: 'support', name: 'Support', lead: 'George Miller', headcount: 8 },
+  { id: 'finance', name: 'Finance', lead: 'Hannah Lee', headcount: 5 },
+];
+
+const loadTeams = async (unit: OrgUnit): Promise<OrgUnit[]> => {
+  await new Promise(resolve => setTimeout(resolve, 800));
+  return ['Tier 1', 'Tier 2'].map((team, index) => ({
+    id: `${unit.id}-${index + 1}`,
+    name: `${unit.name} ${team}`,
+    lead: userData[index].name,
+    headcount: Math.ceil(unit.headcount / 2),
+  }));
+};
+
+const TreeTable = () => {
+  const [selected, setSelected] = useState<OrgUnit[]>([]);
+
+  return (
+    <div className="p-6 space-y-4">
+      <DataTable
+        data={orgData}
+        columns={[
+          { key: 'name', title: 'Unit', sortable: true, filter: 'text' },
+          { key: 'lead', title: 'Lead', sortable: true },
+          { key: 'headcount', title: 'Headcount', sortable: true, align: 'right' },
+        ]}
+        getSubRows={unit => unit.children}
+        loadSubRows={loadTeams}
+        hasSubRows={unit => !unit.id.includes('-')}
+        selectable
+        onRowSelect={setSelected}
+      />
+      <p className="text-sm text-muted-foreground">
+        Selected: {selected.map(unit => unit.name).join(', ') || 'none'}
+      </p>
+    </div>
+  );
+};
+
+export const TreeData: Story = {
+  render: () => <TreeTable />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'An org hierarchy with indented sub-rows. Support and Finance load their teams on first expand. Selecting a unit selects everything below it, and a partly selected parent shows an indeterminate checkbox. Filtering keeps the ancestors of matching units visible.',
+      },
+    },
+  },
+};
+
+// Export
+const exportColumns: Column<User>[] = [
+  ...userColumns.slice(0, 3),
+  {
+    ...userColumns[3],
+    filter: 'select',
+    // The cell renders a Badge; exports get the capitalized label instead
+    exportValue: user => user.status.charAt(0).toUpperCase() + user.status.slice(1),
+  },
+  {
+    key: 'lastLogin',
+    title: 'Last Login',
+    sortable: true,
+    sortType: 'date',
+    render: (date: string) => new Date(date).toLocaleDateString('en-US'),
+    // Dates become real date cells in the SpreadsheetML export
+    exportValue: user => new Date(user.lastLogin),
+  },
+];
+
+const ExportTable = () => {
+  const tableRef = useRef<DataTableHandle>(null);
+  const [preview, setPreview] = useState('');
+
+  return (
+    <div className="p-6 space-y-4">
+      <DataTable
+        ref={tableRef}
+        data={userData}
+        columns={exportColumns}
+        selectable
+        searchable
+        exportable={{ filename: 'users' }}
+      />
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPreview(tableRef.current?.exportData({ format: 'csv', download: false, bom: false }) ?? '')}
+        >
+          Preview CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPreview(tableRef.current?.exportData({ format: 'json', download: false }) ?? '')}
+        >
+          Preview JSON
+        </Button>
+      </div>
+      {preview && (
+        <pre className="max-h-64 overflow-auto rounded-lg bg-muted p-4 text-xs">{preview}</pre>
+      )}
+    </div>
+  );
+};
+
+export const Export: Story = {
+  render: () => <ExportTable />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'Export the sorted and filtered rows, or only the selected ones, from the toolbar menu. The preview buttons call `exportData` through a ref with `download: false`.',
+      },
+    },
+  },
+};
+
+// Keyboard navigation
+export const KeyboardNavigation: Story = {
+  args: {
+    data: manyUsers,
+    columns: userColumns,
+    selectable: true,
+    pagination: { pageSize: 10 },
+  },
+  parameters: {
+    docs: {
+      description: {
+        story: 'Tab into the table, then use the arrow keys, Home/End and PageUp/PageDown to move. Space selects the focused row, Shift+Arrow extends the selection and Ctrl+A selects everything. Screen readers announce positions across all pages through `aria-rowindex`.',
+      },
+    },
+  },
+};
+
+// Selection model
+const selectionUsers: User[] = [
+  // An id of 0 is a valid key
+  { ...userData[0], id: 0 },
+  ...userData.slice(1),
+];
+
+const SelectionTable = () => {
+  const [selectedKeys, setSelectedKeys] = useState<(string | number)[]>([0]);
+  const [selectionMode, setSelectionMode] = useState<'single' | 'multiple'>('multiple');
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <Button
+          variant={selectionMode === 'multiple' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setSelectionMode('multiple')}
+        >
+          Multiple
+        </Button>
+        <Button
+          variant={selectionMode === 'single' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => {
+            setSelectionMode('single');
+            setSelectedKeys(keys => keys.slice(0, 1));
+          }}
+        >
+          Single
+        </Button>
+      </div>
+      <DataTable
+        data={selectionUsers}
+        columns={userColumns}
+        selectable
+        selectionMode={selectionMode}
+        selectedKeys={selectedKeys}
+        onSelectionChange={keys => setSelectedKeys(keys)}
+        // Inactive users cannot be selected
+        isRowSelectable={user => user.status !== 'inactive'}
+      />
+      <p className="text-sm text-muted-foreground">Selected keys: {JSON.stringify(selectedKeys)}</p>
+    </div>
+  );
+};
+
+export const SelectionModel: Story = {
+  render: () => <SelectionTable />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'Controlled selection through `selectedKeys` and `onSelectionChange`. Shift-click a second checkbox to select the range in between. Inactive users are excluded with `isRowSelectable`, and the first user has an id of 0.',
+      },
+    },
+  },
+};
+
+// Bulk actions
+const BulkActionsTable = () => {
+  const [users, setUsers] = useState(manyUsers.slice(0, 12));
+
+  // Simulated API. Pending users cannot be archived, to show per-row failures.
+  const archiveUser = async (user: User) => {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    if (user.status === 'pending') {
+      throw new Error('Pending users cannot be archived');
+    }
+    setUsers(current => current.map(item => (item.id === user.id ? { ...item, status: 'inactive' } : item)));
+  };
+
+  const bulkActions: DataTableBulkAction<User>[] = [
+    { id: 'archive', label: 'Archive', onRowAction: archiveUser },
+    {
+      id: 'activate',
+      label: 'Activate',
+      disabled: rows => rows.every(user => user.status === 'active'),
+      onAction: async rows => {
+        await new Promise(resolve => setTimeout(resolve, 600));
+        const ids = new Set(rows.map(user => user.id));
+        setUsers(current => current.map(user => (ids.has(user.id) ? { ...user, status: 'active' } : user)));
+      },
+    },
+    {
+      id: 'copy-emails',
+      label: 'Copy emails',
+      inMenu: true,
+      clearSelection: false,
+      onAction: rows => navigator.clipboard?.writeText(rows.map(user => user.email).join(', ')),
+    },
+    {
+      id: 'delete',
+      label: 'Delete',
+      inMenu: true,
+      destructive: true,
+      confirm: {
+        description: rows => `${rows.map(user => user.name).join(', ')} will be removed permanently.`,
+      },
+      onAction: async rows => {
+        await new Promise(resolve => setTimeout(resolve, 600));
+        const ids = new Set(rows.map(user => user.id));
+        setUsers(current => current.filter(user => !ids.has(user.id)));
+      },
+    },
+  ];
+
+  return (
+    <div className="p-6">
+      <DataTable data={users} columns={userColumns} selectable bulkActions={bulkActions} />
+      <Toaster />
+    </div>
+  );
+};
+
+export const BulkActions: Story = {
+  render: () => <BulkActionsTable />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'Select rows to reveal the bulk action bar. Archive runs per row with progress and reports pending users as failures; Delete asks for confirmation first.',
+      },
+    },
+  },
+};
+
+// Grouping and aggregates
+interface SalesRep extends User {
+  deals: number;
+  revenue: number;
+  winRate: number;
+}
+
+const salesData: SalesRep[] = manyUsers.slice(0, 24).map((user, index) => ({
+  ...user,
+  deals: (index * 7) % 13 + 2,
+  revenue: ((index * 37) % 90 + 10) * 1000,
+  winRate: ((index * 11) % 60 + 20) / 100,
+}));
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const salesColumns: Column<SalesRep>[] = [
+  { key: 'name', title: 'Name', sortable: true },
+  { key: 'role', title: 'Role', sortable: true, groupable: true },
+  {
+    key: 'status',
+    title: 'Status',
+    sortable: true,
+    groupable: true,
+    render: (status: string) => <Badge variant={status === 'active' ? 'default' : 'secondary'}>{status}</Badge>,
+    // Custom aggregate: how many reps in the group are active
+    aggregate: (values: unknown[]) => `${values.filter(value => value === 'active').length} active`,
+  },
+  { key: 'deals', title: 'Deals', sortable: true, align: 'right', aggregate: 'sum' },
+  {
+    key: 'revenue',
+    title: 'Revenue',
+    sortable: true,
+    align: 'right',
+    render: (revenue: number) => currency.format(revenue),
+    aggregate: 'sum',
+    renderAggregate: value => (typeof value === 'number' ? currency.format(value) : ''),
+  },
+  {
+    key: 'winRate',
+    title: 'Avg. win rate',
+    sortable: true,
+    align: 'right',
+    render: (winRate: number) => `${Math.round(winRate * 100)}%`,
+    aggregate: 'avg',
+    renderAggregate: value => (typeof value === 'number' ? `${Math.round(value * 100)}%` : ''),
+  },
+];
+
+const GroupingTable = () => {
+  const [groupBy, setGroupBy] = useState<(keyof SalesRep)[]>(['role', 'status']);
+
+  return (
+    <div className="p-6 space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Grouped by: {groupBy.length > 0 ? groupBy.join(' → ') : 'nothing'}
+      </p>
+      <DataTable
+        data={salesData}
+        columns={salesColumns}
+        groupBy={groupBy}
+        onGroupByChange={setGroupBy}
+        columnControls
+        selectable
+      />
+    </div>
+  );
+};
+
+export const Grouping: Story = {
+  render: () => <GroupingTable />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'Rows grouped by role, then status. Group headers collapse and show counts plus the sum of deals and revenue and the average win rate; the footer totals every row. Use a header menu to group or ungroup Role and Status.',
+      },
+    },
+  },
+};
+
+// Mobile card layout
+const mobileOptions: Partial<Record<keyof User, Partial<Column<User>>>> = {
+  name: { mobileField: 'primary' },
+  email: { mobileField: 'secondary' },
+  status: { mobilePriority: 1 },
+  lastLogin: { hideOnMobile: true },
+};
+
+const mobileUserColumns: Column<User>[] = userColumns.map(column => ({ ...column, ...mobileOptions[column.key] }));
+
+export const MobileCards: Story = {
+  args: {
+    data: manyUsers.slice(0, 8),
+    columns: mobileUserColumns,
+    selectable: true,
+    pagination: { pageSize: 5 },
+  },
+  globals: {
+    viewport: { value: 'mobile1', isRotated: false },
+  },
+  parameters: {
+    docs: {
+      description: {
+        story: 'Below 768px each row becomes a card: the name as the title, the email under it and the remaining fields as label/value pairs, with Status first and Last Login hidden. Select all and sorting move into a bar above the cards.',
+      },
+    },
+  },
+};
+
+// Row actions
+const RowActionsTable = () => {
+  const [users, setUsers] = useState(userData);
+  const [lastEvent, setLastEvent] = useState('Click, double-click or right-click a row');
+
+  const rowActions = (user: User): DataTableRowAction<User>[] => [
+    {
+      id: 'email',
+      label: 'Copy email',
+      shortcut: '⌘C',
+      onSelect: row => {
+        navigator.clipboard?.writeText(row.email);
+        toast({ title: 'Email copied', description: row.email });
+      },
+    },
+    {
+      id: 'activate',
+      label: user.status === 'active' ? 'Deactivate' : 'Activate',
+      onSelect: row =>
+        setUsers(current =>
+          current.map(item =>
+            item.id === row.id ? { ...item, status: item.status === 'active' ? 'inactive' : 'active' } : item
+          )
+        ),
+    },
+    {
+      id: 'delete',
+      label: 'Delete',
+      destructive: true,
+      separator: true,
+      disabled: user.role === 'Admin',
+      onSelect: row => setUsers(current => current.filter(item => item.id !== row.id)),
+    },
+  ];
+
+  return (
+    <div className="p-6 space-y-4">
+      <p className="text-sm text-muted-foreground" role="status">{lastEvent}</p>
+      <DataTable
+        data={users}
+        columns={userColumns}
+        selectable
+        rowActions={rowActions}
+        getRowHref={user => `#/users/${user.id}`}
+        onRowClick={(user, event) => {
+          // Stay on the page in Storybook; a router would navigate here
+          event.preventDefault();
+          setLastEvent(`Opened ${user.name}`);
+        }}
+        onRowDoubleClick={user => setLastEvent(`Double-clicked ${user.name}`)}
+      />
+      <Toaster />
+    </div>
+  );
+};
+
+export const RowActions: Story = {
+  render: () => <RowActionsTable />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'Each row has a "…" menu and the same actions on right-click; admins cannot be deleted. Names are real links (try middle-click), and clicking elsewhere on a row calls `onRowClick`.',
+      },
+    },
+  },
+};
+
+// Sticky header and pinned columns
+export const StickyColumns: Story = {
+  args: {
+    data: manyUsers,
+    columns: [
+      { key: 'name', title: 'Name', sortable: true, pinned: 'left', width: '220px' },
+      { key: 'email', title: 'Email', sortable: true, width: '280px' },
+      { key: 'role', title: 'Role', sortable: true, width: '200px' },
+      {
+        key: 'lastLogin',
+        title: 'Last Login',
+        sortable: true,
+        sortType: 'date',
+        width: '240px',
+        render: (date: string) => new Date(date).toLocaleString('en-US'),
+      },
+      { ...userColumns[3], pinned: 'right', width: '140px' },
+    ] as Column<User>[],
+    selectable: true,
+    stickyHeader: true,
+    maxHeight: 420,
+  },
+  parameters: {
+    docs: {
+      description: {
+        story: 'The body scrolls under the header within 420px. Name is pinned left with the checkboxes and Status is pinned right, so both stay in place while the middle columns scroll sideways; shadows show which edges have more content.',
+      },
+    },
+  },
+};
+
+// URL state
+const urlStateColumns: Column<User>[] = [
+  { key: 'name', title: 'Name', sortable: true, filter: 'text', hideable: false },
+  { key: 'email', title: 'Email', sortable: true },
+  { key: 'role', title: 'Role', sortable: true, filter: 'multiSelect' },
+  { ...userColumns[3], filter: 'select' },
+  {
+    key: 'lastLogin',
+    title: 'Last Login',
+    sortable: true,
+    sortType: 'date',
+    filter: 'dateRange',
+    searchable: false,
+    render: (date: string) => new Date(date).toLocaleDateString('en-US'),
+  },
+];
+
+const UrlStateTable = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { tableProps } = useDataTableUrlState<User>({
+    columns: urlStateColumns,
+    defaultSortStack: [{ key: 'name', direction: 'asc' }],
+  });
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => navigate(-1)}>
+          Back
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => navigate(1)}>
+          Forward
+        </Button>
+        <code className="min-w-0 truncate rounded bg-muted px-2 py-1 text-xs">
+          {location.pathname}
+          {location.search}
+        </code>
+      </div>
+      <DataTable data={manyUsers} columns={urlStateColumns} searchable columnControls pagination {...tableProps} />
+    </div>
+  );
+};
+
+export const UrlState: Story = {
+  render: () => (
+    <MemoryRouter initialEntries={['/users?sort=-lastLogin&f.role=Admin&f.role=Editor']}>
+      <UrlStateTable />
+    </MemoryRouter>
+  ),
+  parameters: {
+    docs: {
+      description: {
+        story: 'Sort, filters, search, page and hidden columns live in the URL shown above the table; the story starts from a link filtered to admins and editors. Change the view, then use Back and Forward to step through it.',
+      },
+    },
+  },
+};
+
+// Saved views, kept in a fake backend that answers after a short delay
+const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+
+const viewsBackend = new Map<string, DataTableViewStore>([
+  [
+    'storybook-users-views',
+    {
+      views: [
+        {
+          id: 'pending-editors',
+          name: 'My pending editors',
+          state: {
+            sortStack: [{ key: 'name', direction: 'asc' }],
+            filters: { role: ['Editor'], status: 'pending' },
+            globalFilter: '',
+            columnLayout: { order: [], hidden: ['lastLogin'], widths: {}, pinned: {} },
+          },
+        },
+        {
+          id: 'inactive-30-days',
+          name: 'Inactive > 30 days',
+          state: {
+            sortStack: [{ key: 'lastLogin', direction: 'asc' }],
+            filters: { status: 'inactive', lastLogin: { to: thirtyDaysAgo.toISOString() } },
+            globalFilter: '',
+            columnLayout: { order: [], hidden: [], widths: { name: 240 }, pinned: {} },
+          },
+        },
+      ],
+      defaultViewId: null,
+    },
+  ],
+]);
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const backendViewStorage: DataTableViewStorage = {
+  load: async storageKey => {
+    await wait(400);
+    return viewsBackend.get(storageKey) ?? null;
+  },
+  save: async (storageKey, store) => {
+    await wait(400);
+    viewsBackend.set(storageKey, store);
+  },
+};
+
+export const SavedViews: Story = {
+  args: {
+    data: manyUsers,
+    columns: urlStateColumns,
+    searchable: true,
+    columnControls: true,
+    pagination: true,
+    views: { storageKey: 'storybook-users-views', storage: backendViewStorage },
+  },
+  decorators: [
+    Story => (
+      <>
+        <Story />
+        <Toaster />
+      </>
+    ),
+  ],
+  parameters: {
+    docs: {
+      description: {
+        story: 'Open the Views menu to switch between saved views, save the current sort, filters and columns as a new one, or set a default. A dot marks unsaved changes to the active view. Views are stored through a custom adapter standing in for a backend.',
+      },
+    },
+  },
+};
+
+// Copy and paste
+const clipboardColumns: Column<User>[] = [
+  {
+    key: 'name',
+    title: 'Name',
+    editable: { schema: z.string().trim().min(2, 'Name must be at least 2 characters') },
+  },
+  {
+    key: 'email',
+    title: 'Email',
+    editable: { schema: z.string().email('Enter a valid email address') },
+  },
+  {
+    key: 'role',
+    title: 'Role',
+    editable: {
+      type: 'select',
+      options: ['Admin', 'Editor', 'Viewer'].map(role => ({ label: role, value: role })),
+    },
+  },
+  exportColumns[3],
+  exportColumns[4],
+];
+
+const sampleBlock = ['Ada Lovelace\tada@example.com\tAdmin', 'Alan Turing\talan@example.com\tEditor'].join('\n');
+
+const ClipboardTable = () => {
+  const [users, setUsers] = useState(userData);
+
+  const handleCellEdit = (row: User, key: keyof User, value: unknown) =>
+    setUsers(current => current.map(user => (user.id === row.id ? { ...user, [key]: value } : user)));
+
+  return (
+    <div className="p-6 space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Drag across cells or Shift+click to select a range, then Ctrl+C and paste into a spreadsheet. Copy
+        the block below, click a Name cell and press Ctrl+V; Ctrl+Z undoes the paste.
+      </p>
+      <pre className="rounded-lg bg-muted p-4 text-xs">{sampleBlock}</pre>
+      <DataTable data={users} columns={clipboardColumns} onCellEdit={handleCellEdit} selectable cellSelection />
+      <Toaster />
+    </div>
+  );
+};
+
+export const CopyAndPaste: Story = {
+  render: () => <ClipboardTable />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'Cell ranges copy as TSV and an HTML table; Status and Last Login copy their `exportValue`. Pasting validates every cell first, so a block with a bad email or an unknown role changes nothing, and pasting into the read-only Status column is refused.',
+      },
+    },
+  },
+};
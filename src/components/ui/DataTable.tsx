@@ -1,7 +1,136 @@
-import React, { useState, useMemo } from 'react';
+import React, {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import { cn } from '@/lib/utils';
-import { ChevronDown, ChevronUp, ChevronsUpDown, Loader2, FileText, Search } from 'lucide-react';
+import {
+  AlertCircle,
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  ChevronsUpDown,
+  Loader2,
+  FileText,
+  Group,
+  Pin,
+  RotateCw,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { DataTablePagination, type DataTablePaginationOptions } from '@/components/ui/data-table-pagination';
+import { DataTableToolbar } from '@/components/ui/data-table-toolbar';
+import {
+  isEmptyFilterValue,
+  matchesFilter,
+  matchesGlobalFilter,
+  normalizeColumnFilter,
+  type ColumnFilter,
+  type ColumnFilterType,
+  type DataTableFilters,
+} from '@/components/ui/data-table-filters';
+import {
+  getCellId,
+  normalizeCellEditor,
+  validateCellValue,
+  type CellEditor,
+  type CellEditorType,
+  type CellPosition,
+} from '@/components/ui/data-table-editing';
+import { DataTableCellEditor, type EditMove } from '@/components/ui/data-table-cell-editor';
+import {
+  DEFAULT_MIN_COLUMN_WIDTH,
+  EMPTY_COLUMN_LAYOUT,
+  getColumnPin,
+  getStickyOffsets,
+  loadColumnLayout,
+  moveColumn,
+  resolveColumns,
+  saveColumnLayout,
+  setColumnHidden,
+  setColumnPin,
+  setColumnWidth,
+  type ColumnPin,
+  type DataTableColumnControls,
+  type DataTableColumnLayout,
+} from '@/components/ui/data-table-columns';
+import { DataTableColumnChooser, DataTableColumnMenu } from '@/components/ui/data-table-column-menu';
+import {
+  downloadFile,
+  serializeRows,
+  type DataTableExportConfig,
+  type DataTableExportOptions,
+  type ExportFormat,
+  type ExportValue,
+} from '@/components/ui/data-table-export';
+import { DataTableExportMenu } from '@/components/ui/data-table-export-menu';
+import {
+  formatClipboardValue,
+  fromClipboardInput,
+  getRangeBounds,
+  parseClipboardText,
+  toClipboardHtml,
+  toClipboardText,
+  writeClipboard,
+  type CellRange,
+} from '@/components/ui/data-table-clipboard';
+import {
+  getUniqueViewName,
+  isSameViewState,
+  reviveViewState,
+  type DataTableView,
+  type DataTableViewState,
+  type DataTableViewStorage,
+  type DataTableViewStore,
+  type DataTableViewsConfig,
+} from '@/components/ui/data-table-views';
+import { DataTableViewsMenu } from '@/components/ui/data-table-views-menu';
+import { ToastAction } from '@/components/ui/toast';
+import { toast } from '@/hooks/use-toast';
+import {
+  DataTableBulkActions,
+  type DataTableBulkAction,
+  type DataTableBulkActionContext,
+} from '@/components/ui/data-table-bulk-actions';
+import {
+  DataTableRowActionsMenu,
+  DataTableRowContextMenu,
+  type DataTableRowAction,
+} from '@/components/ui/data-table-row-actions';
+import {
+  cascadeSelection,
+  isPartiallySelectedNode,
+  type TreeIndex,
+} from '@/components/ui/data-table-tree';
+import {
+  computeAggregate,
+  formatAggregate,
+  flattenGroupKeys,
+  groupRows,
+  type AggregateFn,
+  type ColumnAggregate,
+  type RowGroup,
+} from '@/components/ui/data-table-grouping';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useControlledState } from '@/hooks/use-controlled-state';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useDataTableViews } from '@/hooks/use-data-table-views';
+import { useScrollOverflow } from '@/hooks/use-scroll-overflow';
 
 export interface Column<T> {
   key: keyof T;
@@ -10,8 +139,57 @@ export interface Column<T> {
   width?: string;
   render?: (value: any, row: T, index: number) => React.ReactNode;
   align?: 'left' | 'center' | 'right';
+  /**
+   * How values are compared when sorting. Defaults to comparing numbers
+   * numerically and everything else with `localeCompare`.
+   */
+  sortType?: SortType;
+  /** Custom ascending comparator. Takes precedence over `sortType`. */
+  sortFn?: (a: T, b: T) => number;
+  /** Filter UI shown in the toolbar. Pass a type for defaults or a config object. */
+  filter?: ColumnFilterType | ColumnFilter<T>;
+  /** Include this column in the global search. Defaults to true. */
+  searchable?: boolean;
+  /**
+   * Allow inline editing. Enter, F2 or double-click opens the editor; Enter commits,
+   * Escape cancels and Tab commits and moves to the next editable cell.
+   */
+  editable?: boolean | CellEditor<T>;
+  /** Allow hiding this column from the column chooser. Defaults to true. */
+  hideable?: boolean;
+  /** Allow resizing when column controls are enabled. Defaults to true. */
+  resizable?: boolean;
+  /** Smallest width in pixels the column can be resized to. */
+  minWidth?: number;
+  /** Initial pinning. Users can change it from the header menu. */
+  pinned?: ColumnPin;
+  /**
+   * Plain value written to exports. Defaults to the raw cell value, so set this
+   * for columns whose `render` output carries the meaning.
+   */
+  exportValue?: (row: T) => ExportValue;
+  /** Include this column in exports. Defaults to true. */
+  exportable?: boolean;
+  /** Allow grouping rows by this column from the header menu. */
+  groupable?: boolean;
+  /** Summarize the column in group headers and the footer row. */
+  aggregate?: ColumnAggregate<T>;
+  /** Render an aggregated value. Defaults to a locale-formatted number. */
+  renderAggregate?: (value: unknown, rows: T[]) => React.ReactNode;
+  /** Leave this column out of the mobile card layout. */
+  hideOnMobile?: boolean;
+  /** Order of the field in mobile cards; lower numbers come first. Defaults to the column order. */
+  mobilePriority?: number;
+  /**
+   * Show the value as the card title (`primary`) or under it (`secondary`) instead of
+   * as a label/value pair. The first field is the title when no column is `primary`.
+   */
+  mobileField?: 'primary' | 'secondary';
 }
 
+/** `natural` compares embedded numbers by value, so "Item 2" sorts before "Item 10". */
+export type SortType = 'string' | 'natural' | 'number' | 'date';
+
 export type SortDirection = 'asc' | 'desc' | null;
 
 export interface SortConfig<T> {
@@ -19,128 +197,1739 @@ export interface SortConfig<T> {
   direction: SortDirection;
 }
 
+export type {
+  ColumnFilter,
+  ColumnFilterType,
+  DataTableFilters,
+  CellEditor,
+  CellEditorType,
+  ColumnPin,
+  DataTableColumnControls,
+  DataTableColumnLayout,
+  DataTableExportConfig,
+  DataTableExportOptions,
+  ExportFormat,
+  DataTableBulkAction,
+  DataTableBulkActionContext,
+  AggregateFn,
+  ColumnAggregate,
+  DataTableRowAction,
+  DataTableView,
+  DataTableViewState,
+  DataTableViewStorage,
+  DataTableViewStore,
+  DataTableViewsConfig,
+};
+
 export interface DataTableProps<T> {
   data: T[];
   columns: Column<T>[];
+  /**
+   * Shows skeleton rows while there is no data yet, and a non-blocking
+   * "refreshing" overlay over the current rows once there is.
+   */
   loading?: boolean;
+  /** Number of skeleton rows. Defaults to the page size, or 5 without pagination. */
+  loadingRows?: number;
+  /** Shown in place of the rows, e.g. when a fetch failed */
+  error?: Error | string | null;
+  /** Adds a "Try again" button to the error state */
+  onRetry?: () => void;
+  /** Actions for a row, shown in a trailing "…" menu and on right-click */
+  rowActions?: (row: T) => DataTableRowAction<T>[];
+  /**
+   * Called when a row is clicked outside its controls, or with Enter on a cell without
+   * controls. Call `event.preventDefault()` to skip the `getRowHref` navigation.
+   */
+  onRowClick?: (row: T, event: React.MouseEvent<HTMLElement> | React.KeyboardEvent<HTMLElement>) => void;
+  /**
+   * Called when a row is double-clicked outside its controls. The double-click's first
+   * click still runs `onRowClick` (and follows `getRowHref`), its second one doesn't, so
+   * pair it with a click handler that selects rather than navigates.
+   */
+  onRowDoubleClick?: (row: T, event: React.MouseEvent<HTMLElement>) => void;
+  /**
+   * Links each row: the first column renders as a real link (so middle-click and "Open in
+   * new tab" work) and clicking elsewhere on the row follows it, in a new tab with Ctrl/Cmd.
+   */
+  getRowHref?: (row: T) => string | undefined;
   selectable?: boolean;
   onRowSelect?: (selectedRows: T[]) => void;
+  /** Keys of the selected rows. Selection is tracked by key, so it survives paging and data changes. */
+  selectedKeys?: (string | number)[];
+  /** Receives the selected keys and the rows behind them that have been loaded. */
+  onSelectionChange?: (selectedKeys: (string | number)[], selectedRows: T[]) => void;
+  /** `single` keeps at most one row selected. Defaults to `multiple`. */
+  selectionMode?: 'single' | 'multiple';
+  /** Rows this returns false for get a disabled checkbox and are skipped by bulk selection. */
+  isRowSelectable?: (row: T) => boolean;
+  /**
+   * Server-side mode: every row matching the current filters is selected, including rows
+   * that are not loaded. Set from the "select all matching rows" banner.
+   */
+  allMatchingSelected?: boolean;
+  onAllMatchingSelectedChange?: (allMatchingSelected: boolean) => void;
+  /** Actions shown in the selection bar. They receive the selected row objects. */
+  bulkActions?: DataTableBulkAction<T>[];
   className?: string;
   emptyMessage?: string;
+  emptyDescription?: React.ReactNode;
   emptyIcon?: React.ReactNode;
   rowKey?: keyof T | ((row: T, index: number) => string | number);
+  /**
+   * Readable name of a row, such as a customer's name, used where rows are listed by
+   * name, e.g. the rows a bulk action failed for. Defaults to the first column's value.
+   */
+  getRowLabel?: (row: T) => string;
+  /**
+   * Server-side mode. `data` is rendered as-is (already sorted, filtered and paged)
+   * and every state change is only reported through the callbacks below.
+   */
+  manual?: boolean;
+  /** Total number of rows on the server. Defaults to `data.length`. */
+  totalCount?: number;
+  /** Primary sort column. Convenience for single-column sorting; see `sortStack`. */
+  sortConfig?: SortConfig<T> | null;
+  onSortChange?: (sortConfig: SortConfig<T> | null) => void;
+  /** Every active sort, in priority order. Takes precedence over `sortConfig`. */
+  sortStack?: SortConfig<T>[];
+  onSortStackChange?: (sortStack: SortConfig<T>[]) => void;
+  /**
+   * Clicking a header adds it to the sort stack instead of replacing it.
+   * Without this, hold Shift while clicking to sort by several columns.
+   */
+  multiSort?: boolean;
+  /**
+   * Render a pager below the table. Pass options to configure the page-size
+   * selector, first/last buttons and jump-to-page input.
+   */
+  pagination?: boolean | DataTablePaginationOptions;
+  pageIndex?: number;
+  /** Number of rows per page. Paging is disabled when omitted and `pagination` is not set. */
+  pageSize?: number;
+  onPageChange?: (pageIndex: number, pageSize: number) => void;
+  filters?: DataTableFilters;
+  onFilterChange?: (filters: DataTableFilters) => void;
+  /** Show a global search box in the toolbar. */
+  searchable?: boolean;
+  searchPlaceholder?: string;
+  /** Global search query, fuzzy-matched against every searchable column. */
+  globalFilter?: string;
+  onGlobalFilterChange?: (globalFilter: string) => void;
+  /**
+   * Only mount the rows inside the scroll viewport. Meant for large client-side
+   * data sets; the body scrolls inside a fixed-height container with a sticky header.
+   */
+  virtualized?: boolean | DataTableVirtualizationOptions;
+  /**
+   * Persists an inline edit. The new value is shown immediately and rolled back
+   * if the returned promise rejects; the rejection message is shown on the cell.
+   */
+  onCellEdit?: (row: T, key: keyof T, value: unknown) => void | Promise<void>;
+  /**
+   * Let users show/hide, reorder, resize and pin columns. Pass options to
+   * enable only some of the controls.
+   */
+  columnControls?: boolean | DataTableColumnControls;
+  columnLayout?: DataTableColumnLayout;
+  onColumnLayoutChange?: (layout: DataTableColumnLayout) => void;
+  /** localStorage key the column layout is saved under and restored from. */
+  layoutStorageKey?: string;
+  /** Detail panel shown below a row when it is expanded. */
+  renderExpandedRow?: (row: T, index: number) => React.ReactNode;
+  /**
+   * Child rows for tree data. Children are indented under their parent, sorted
+   * and filtered alongside it, and need their own unique `rowKey`.
+   */
+  getSubRows?: (row: T) => T[] | undefined;
+  /** Loads a row's children the first time it is expanded. */
+  loadSubRows?: (row: T) => Promise<T[]>;
+  /** Whether a row has children to load. Defaults to true for every row when `loadSubRows` is set. */
+  hasSubRows?: (row: T) => boolean;
+  /** Keys of the expanded rows. */
+  expandedKeys?: (string | number)[];
+  onExpandedChange?: (expandedKeys: (string | number)[]) => void;
+  /** Show an export menu in the toolbar. Pass options to pick formats and set defaults. */
+  exportable?: boolean | DataTableExportConfig;
+  /**
+   * Saved views menu in the toolbar. Views capture the sort, filters, search and column
+   * layout, and are kept in localStorage unless a `storage` adapter is passed.
+   */
+  views?: DataTableViewsConfig;
+  /**
+   * Columns to group rows by, outermost first, in the order their first row appears.
+   * Groups span every matching row and pages keep each group's rows together, so
+   * header counts and aggregates are totals. In manual mode only the loaded page is
+   * known, so they cover that page and are labelled as such.
+   */
+  groupBy?: (keyof T)[];
+  onGroupByChange?: (groupBy: (keyof T)[]) => void;
+  /**
+   * Footer row with each column's `aggregate` over every matching row (the loaded
+   * page in manual mode). Shown by default when a visible column aggregates.
+   */
+  aggregateFooter?: boolean;
+  /**
+   * Layout below the mobile breakpoint: each row as a card of label/value pairs, or the
+   * horizontally scrolling table. Defaults to `cards`; virtualized tables always use the table.
+   */
+  mobileLayout?: 'cards' | 'table';
+  /** Keep the header row visible while the body scrolls inside `maxHeight`. */
+  stickyHeader?: boolean;
+  /**
+   * Height the table grows to before its body scrolls. Pinned columns stay in place
+   * during horizontal scroll either way.
+   */
+  maxHeight?: number | string;
+  /**
+   * Select rectangular cell ranges with Shift+arrows, Shift+click or by dragging. Ctrl+C
+   * copies the range as tab-separated text and an HTML table of each column's export value
+   * (Ctrl+Shift+C adds the titles); Ctrl+V pastes a block into editable columns, validating
+   * every cell first, and Ctrl+Z undoes the paste.
+   */
+  cellSelection?: boolean;
+}
+
+export interface DataTableVirtualizationOptions {
+  /** Height of the scroll container. Defaults to 600px. */
+  height?: number | string;
+  /** Fixed or estimated row height in pixels. Defaults to 53. */
+  rowHeight?: number;
+  /** Measure each rendered row instead of trusting `rowHeight`. Use for rows with wrapping content. */
+  measureRows?: boolean;
+  /** Rows rendered above and below the viewport. Defaults to 10. */
+  overscan?: number;
+}
+
+export interface DataTableHandle {
+  /**
+   * Scrolls the row with the given key into view, switching pages if needed.
+   * Returns `false` when no loaded row has that key.
+   */
+  scrollToRow: (key: string | number, options?: { align?: 'start' | 'center' | 'end' | 'auto' }) => boolean;
+  /**
+   * Serializes the sorted and filtered rows (or only the selected ones) for the
+   * visible columns, downloads the file and returns its content.
+   */
+  exportData: (options?: DataTableExportOptions) => string;
+}
+
+// Rows as rendered: group headers, then each row followed by its detail panel and expanded children
+type DisplayRow<T> =
+  | { type: 'row'; row: T; key: string | number; depth: number; index: number; position: number }
+  | { type: 'detail'; row: T; key: string | number; index: number }
+  | { type: 'group'; key: string; group: RowGroup<T> };
+
+interface GridPosition {
+  row: number;
+  col: number;
 }
 
-function DataTable<T extends Record<string, any>>({
+type RowItem<T> = Extract<DisplayRow<T>, { type: 'row' }>;
+
+const isRowItem = <T,>(item: DisplayRow<T>): item is RowItem<T> => item.type === 'row';
+
+// A pasted cell with the value it replaced, so the paste can be undone
+interface PastedCell<T> {
+  row: T;
+  key: string | number;
+  columnKey: keyof T;
+  previousValue: unknown;
+  value: unknown;
+}
+
+// Pasted cells per row, so each row is committed once with all of its cells
+const groupPastedCells = <T,>(changes: PastedCell<T>[], side: 'value' | 'previousValue') => {
+  const rows = new Map<string | number, { row: T; key: string | number; values: Partial<T> }>();
+  changes.forEach(change => {
+    const entry = rows.get(change.key) ?? { row: change.row, key: change.key, values: {} as Partial<T> };
+    entry.values[change.columnKey] = change[side] as T[keyof T];
+    rows.set(change.key, entry);
+  });
+  return Array.from(rows.values());
+};
+
+const getExportValue = <T,>(column: Column<T>, row: T): ExportValue =>
+  column.exportValue ? column.exportValue(row) : (row[column.key] as ExportValue);
+
+const pluralizeCells = (count: number) => `${count} ${count === 1 ? 'cell' : 'cells'}`;
+
+// Focusable controls inside a grid cell
+const CELL_CONTROL_SELECTOR = 'button:not([disabled]), a[href], input, select, textarea, [tabindex]';
+
+// Elements whose clicks are their own rather than the row's
+const INTERACTIVE_SELECTOR = 'a[href], button, input, select, textarea, label, [role="checkbox"]';
+
+const gridCellFocusClass = 'focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary';
+
+// An inset shadow tints cells in a copy range over any background, including sticky ones
+const cellRangeClass = 'aria-selected:shadow-[inset_0_0_0_9999px_hsl(var(--primary)/0.12)]';
+
+// Sticky cells cover the columns scrolling beneath them, so they need an opaque background.
+// The row's translucent tint is layered over it as a gradient to match the other cells.
+const stickyHoverBackground = 'group-hover:bg-[linear-gradient(hsl(var(--muted)/0.4),hsl(var(--muted)/0.4))]';
+const stickyBackgrounds = {
+  header: 'bg-card bg-[linear-gradient(hsl(var(--muted)/0.3),hsl(var(--muted)/0.3))]',
+  group: 'bg-card bg-[linear-gradient(hsl(var(--muted)/0.5),hsl(var(--muted)/0.5))]',
+  even: cn('bg-card bg-[linear-gradient(hsl(var(--muted)/0.2),hsl(var(--muted)/0.2))]', stickyHoverBackground),
+  odd: cn('bg-background', stickyHoverBackground),
+  selected: cn('bg-primary-light', stickyHoverBackground),
+};
+
+type StickyBackground = keyof typeof stickyBackgrounds;
+
+// Sticky keys for the selection and actions columns, which have no column key of their own
+const SELECT_STICKY_KEY = ':select';
+const ACTIONS_STICKY_KEY = ':actions';
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Map a cell value to something comparable for the given sort type.
+// Returns null for values that cannot be interpreted, which always sort last.
+const toSortable = (value: unknown, sortType: SortType | undefined) => {
+  if (value == null || value === '') return null;
+  if (sortType === 'number') {
+    const number = typeof value === 'number' ? value : Number(value);
+    return Number.isNaN(number) ? null : number;
+  }
+  if (sortType === 'date') {
+    const time = value instanceof Date ? value.getTime() : new Date(value as string | number).getTime();
+    return Number.isNaN(time) ? null : time;
+  }
+  return value;
+};
+
+const compareValues = (aValue: unknown, bValue: unknown, sortType: SortType | undefined) => {
+  if (typeof aValue === 'number' && typeof bValue === 'number') {
+    return aValue - bValue;
+  }
+  if (sortType === 'natural') {
+    return naturalCollator.compare(String(aValue), String(bValue));
+  }
+  return String(aValue).localeCompare(String(bValue));
+};
+
+// Next direction when a header is clicked: none -> asc -> desc -> none
+const nextSortDirection = (direction: SortDirection | undefined): SortDirection =>
+  !direction ? 'asc' : direction === 'asc' ? 'desc' : null;
+
+function DataTableInner<T extends Record<string, any>>({
   data,
   columns,
   loading = false,
+  loadingRows,
+  error,
+  onRetry,
+  rowActions,
+  onRowClick,
+  onRowDoubleClick,
+  getRowHref,
   selectable = false,
   onRowSelect,
+  selectedKeys: selectedKeysProp,
+  onSelectionChange,
+  selectionMode = 'multiple',
+  isRowSelectable,
+  allMatchingSelected: allMatchingSelectedProp,
+  onAllMatchingSelectedChange,
+  bulkActions,
   className,
   emptyMessage = 'No data available',
+  emptyDescription = "There's no data to display at the moment. Try adjusting your filters or adding new entries.",
   emptyIcon,
   rowKey = 'id',
-}: DataTableProps<T>) {
-  const [sortConfig, setSortConfig] = useState<SortConfig<T> | null>(null);
-  const [selectedRows, setSelectedRows] = useState<Set<string | number>>(new Set());
+  getRowLabel,
+  manual = false,
+  totalCount,
+  sortConfig: sortConfigProp,
+  onSortChange,
+  sortStack: sortStackProp,
+  onSortStackChange,
+  multiSort = false,
+  pagination,
+  pageIndex: pageIndexProp,
+  pageSize: pageSizeProp,
+  onPageChange,
+  filters: filtersProp,
+  onFilterChange,
+  searchable = false,
+  searchPlaceholder,
+  globalFilter: globalFilterProp,
+  onGlobalFilterChange,
+  virtualized = false,
+  onCellEdit,
+  columnControls = false,
+  columnLayout: columnLayoutProp,
+  onColumnLayoutChange,
+  layoutStorageKey,
+  renderExpandedRow,
+  getSubRows,
+  loadSubRows,
+  hasSubRows,
+  expandedKeys: expandedKeysProp,
+  onExpandedChange,
+  exportable = false,
+  views,
+  groupBy: groupByProp,
+  onGroupByChange,
+  aggregateFooter,
+  mobileLayout = 'cards',
+  stickyHeader = false,
+  maxHeight,
+  cellSelection = false,
+}: DataTableProps<T>, ref: React.ForwardedRef<DataTableHandle>) {
+  // `sortConfig` is the single-sort view of the stack, so either prop can control it
+  const [sortStack, setSortStack] = useControlledState<SortConfig<T>[]>(
+    sortStackProp ?? (sortConfigProp === undefined ? undefined : sortConfigProp ? [sortConfigProp] : []),
+    [],
+    stack => {
+      onSortStackChange?.(stack);
+      onSortChange?.(stack[0] ?? null);
+    }
+  );
+  const [filters, setFilters] = useControlledState<DataTableFilters>(filtersProp, {}, onFilterChange);
+  const [globalFilter, setGlobalFilter] = useControlledState(globalFilterProp, '', onGlobalFilterChange);
+  const paginationOptions = typeof pagination === 'object' ? pagination : {};
+  const [pageIndex, setPageIndex] = useControlledState(pageIndexProp, 0);
+  const [pageSize, setPageSize] = useControlledState<number | undefined>(
+    pageSizeProp,
+    pagination ? paginationOptions.pageSize ?? 10 : undefined
+  );
+  // Selection is kept by row key. Rows are remembered when selected so they can still
+  // be reported after their page (or the data) is gone.
+  const [selectedKeys, setSelectedKeys] = useControlledState<(string | number)[]>(selectedKeysProp, []);
+  const [allMatchingSelected, setAllMatchingSelected] = useControlledState(
+    allMatchingSelectedProp,
+    false,
+    onAllMatchingSelectedChange
+  );
+  const selectedRowCacheRef = useRef<Map<string | number, T>>(new Map());
+  const selectedKeySet = useMemo(() => new Set(selectedKeys), [selectedKeys]);
+  const isMultiSelect = selectionMode === 'multiple';
+
+  // Inline editing. Committed values are overlaid on the rows until `data` catches up with
+  // them, or until `data` changes once their save has finished.
+  const [editingCell, setEditingCell] = useState<CellPosition | null>(null);
+  const [editedValues, setEditedValues] = useState<Map<string | number, Partial<T>>>(new Map());
+  const [cellErrors, setCellErrors] = useState<Map<string, string>>(new Map());
+  const [savingCells, setSavingCells] = useState<Set<string>>(new Set());
+  // Cells whose onCellEdit is still running, read when `data` changes
+  const pendingEditsRef = useRef<Set<string>>(new Set());
+
+  const withEdits = useCallback((row: T, key: string | number): T => {
+    const edits = editedValues.get(key);
+    return edits ? { ...row, ...edits } : row;
+  }, [editedValues]);
+
+  // Column layout
+  const [columnLayout, setColumnLayout] = useControlledState<DataTableColumnLayout>(
+    columnLayoutProp,
+    () => (layoutStorageKey && loadColumnLayout(layoutStorageKey)) || EMPTY_COLUMN_LAYOUT,
+    onColumnLayoutChange
+  );
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const [dropTargetColumn, setDropTargetColumn] = useState<string | null>(null);
+  const isResizingRef = useRef(false);
+  const tableRef = useRef<HTMLTableElement>(null);
+
+  useEffect(() => {
+    if (layoutStorageKey) saveColumnLayout(layoutStorageKey, columnLayout);
+  }, [layoutStorageKey, columnLayout]);
+
+  const controls = columnControls
+    ? { chooser: true, reorder: true, resize: true, pin: true, ...(columnControls === true ? {} : columnControls) }
+    : { chooser: false, reorder: false, resize: false, pin: false };
+  const visibleColumns = useMemo(() => resolveColumns(columns, columnLayout), [columns, columnLayout]);
+  const hasResizedColumns = Object.keys(columnLayout.widths).length > 0;
+  const colSpan = visibleColumns.length + (selectable ? 1 : 0) + (rowActions ? 1 : 0);
+
+  // Mobile card layout. Fields follow `mobilePriority`, then the column order.
+  const isMobile = useIsMobile();
+  const showCards = isMobile && mobileLayout === 'cards' && !virtualized;
+  const cardFields = useMemo(() => {
+    const fields = visibleColumns
+      .filter(column => !column.hideOnMobile)
+      .map((column, order) => ({ column, order }))
+      .sort((a, b) => (a.column.mobilePriority ?? Infinity) - (b.column.mobilePriority ?? Infinity) || a.order - b.order)
+      .map(({ column }) => column);
+    const primary = fields.find(column => column.mobileField === 'primary') ?? fields[0];
+    const secondary = fields.filter(column => column.mobileField === 'secondary' && column !== primary);
+    return {
+      primary,
+      secondary,
+      details: fields.filter(column => column !== primary && !secondary.includes(column)),
+    };
+  }, [visibleColumns]);
+
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
 
   // Generate unique keys for rows
-  const getRowKey = (row: T, index: number): string | number => {
+  const getRowKey = useCallback((row: T, index: number): string | number => {
     if (typeof rowKey === 'function') {
       return rowKey(row, index);
     }
-    return row[rowKey] || index;
-  };
+    return row[rowKey] ?? index;
+  }, [rowKey]);
+
+  // Tree data. Lazily loaded children are kept for the lifetime of the table.
+  const isTree = !!getSubRows || !!loadSubRows;
+  const [loadedSubRows, setLoadedSubRows] = useState<Map<string | number, T[]>>(new Map());
+  const [loadingSubRows, setLoadingSubRows] = useState<Set<string | number>>(new Set());
+  const [expandedKeys, setExpandedKeys] = useControlledState<(string | number)[]>(
+    expandedKeysProp,
+    [],
+    onExpandedChange
+  );
+  const expandedSet = useMemo(() => new Set(expandedKeys), [expandedKeys]);
+
+  const getChildRows = useCallback(
+    (row: T, key: string | number) => getSubRows?.(row) ?? loadedSubRows.get(key) ?? [],
+    [getSubRows, loadedSubRows]
+  );
+
+  // Children without their own key fall back to a path below their parent
+  const getChildKey = useCallback((child: T, index: number, parentKey: string | number) => {
+    if (typeof rowKey === 'function') {
+      return rowKey(child, index);
+    }
+    return child[rowKey] ?? `${parentKey}.${index}`;
+  }, [rowKey]);
+
+  // Column filters and the global search as a row predicate (client-side mode only)
+  const rowFilter = useMemo(() => {
+    if (manual) return null;
+
+    const activeFilters = Object.entries(filters)
+      .filter(([, value]) => !isEmptyFilterValue(value))
+      .map(([key, value]) => {
+        const column = columns.find(col => String(col.key) === key);
+        return { key, value, filter: normalizeColumnFilter(column?.filter) };
+      });
+    const searchKeys = globalFilter.trim()
+      ? columns.filter(col => col.searchable !== false).map(col => col.key)
+      : [];
+    if (activeFilters.length === 0 && searchKeys.length === 0) return null;
 
-  // Sort data based on current sort configuration
+    return (row: T) =>
+      activeFilters.every(({ key, value, filter }) => matchesFilter(row[key], value, filter, row)) &&
+      (searchKeys.length === 0 || matchesGlobalFilter(searchKeys.map(key => row[key]), globalFilter));
+  }, [columns, filters, globalFilter, manual]);
+
+  // In tree data a row stays visible while it or any of its descendants matches
+  const matchesRow = useCallback((row: T, key: string | number): boolean => {
+    if (!rowFilter || rowFilter(row)) return true;
+    return isTree && getChildRows(row, key).some((child, index) => matchesRow(child, getChildKey(child, index, key)));
+  }, [rowFilter, isTree, getChildRows, getChildKey]);
+
+  const filteredData = useMemo(() => {
+    if (!rowFilter) return data;
+    return data.filter((row, index) => matchesRow(row, getRowKey(row, index)));
+  }, [data, rowFilter, matchesRow, getRowKey]);
+
+  // Comparator for each entry of the sort stack in priority order
+  const compareRows = useMemo(() => {
+    const activeSorts = sortStack.filter(sort => sort.direction);
+    if (manual || activeSorts.length === 0) return null;
+
+    const comparators = activeSorts.map(sort => {
+      const column = columns.find(col => col.key === sort.key);
+      const multiplier = sort.direction === 'desc' ? -1 : 1;
+
+      if (column?.sortFn) {
+        return (a: T, b: T) => column.sortFn(a, b) * multiplier;
+      }
+
+      return (a: T, b: T) => {
+        const aValue = toSortable(a[sort.key], column?.sortType);
+        const bValue = toSortable(b[sort.key], column?.sortType);
+
+        if (aValue === bValue) return 0;
+
+        // Empty values stay at the bottom regardless of direction
+        if (aValue == null) return 1;
+        if (bValue == null) return -1;
+
+        return compareValues(aValue, bValue, column?.sortType) * multiplier;
+      };
+    });
+
+    return (a: T, b: T) => {
+      for (const compare of comparators) {
+        const result = compare(a, b);
+        if (result !== 0) return result;
+      }
+      return 0;
+    };
+  }, [sortStack, columns, manual]);
+
+  // Grouping client-side keeps each group's rows together before paging, so a group is only
+  // ever split at a page boundary and its header and aggregates cover all of its rows
+  const [groupBy, setGroupBy] = useControlledState<(keyof T)[]>(groupByProp, [], onGroupByChange);
   const sortedData = useMemo(() => {
-    if (!sortConfig) return data;
+    const sorted = compareRows ? [...filteredData].sort(compareRows) : filteredData;
+    if (manual || groupBy.length === 0) return sorted;
+    const entries = sorted.map((row, index): [number, T] => [index, withEdits(row, getRowKey(row, index))]);
+    return flattenGroupKeys(groupRows(entries, groupBy)).map(index => sorted[index as number]);
+  }, [filteredData, compareRows, manual, groupBy, withEdits, getRowKey]);
 
-    return [...data].sort((a, b) => {
-      const aValue = a[sortConfig.key];
-      const bValue = b[sortConfig.key];
+  // Paging
+  const rowCount = manual ? totalCount ?? data.length : sortedData.length;
+  const pageCount = pageSize ? Math.max(1, Math.ceil(rowCount / pageSize)) : 1;
+  const currentPage = Math.min(pageIndex, pageCount - 1);
+  const pageStart = pageSize ? currentPage * pageSize : 0;
+  const pageData = useMemo(() => {
+    if (manual || !pageSize) return sortedData;
+    return sortedData.slice(pageStart, pageStart + pageSize);
+  }, [sortedData, manual, pageSize, pageStart]);
+  // In manual mode `data` only holds the current page, so indices start at the page offset
+  const dataOffset = manual ? pageStart : 0;
 
-      if (aValue === bValue) return 0;
+  const getDataRowKeyRef = useRef((row: T, index: number) => getRowKey(row, index + dataOffset));
+  getDataRowKeyRef.current = (row: T, index: number) => getRowKey(row, index + dataOffset);
 
-      if (aValue == null) return 1;
-      if (bValue == null) return -1;
+  // Keep edits that are still saving unless the incoming row already holds them; the rest
+  // give way to `data`
+  useEffect(() => {
+    setEditedValues(current => {
+      if (current.size === 0) return current;
+      const rowsByKey = new Map(data.map((row, index) => [getDataRowKeyRef.current(row, index), row]));
+      const next = new Map<string | number, Partial<T>>();
+      current.forEach((edits, key) => {
+        const row = rowsByKey.get(key);
+        const kept = {} as Partial<T>;
+        (Object.keys(edits) as (keyof T)[]).forEach(columnKey => {
+          const isPending = pendingEditsRef.current.has(getCellId({ rowKey: key, columnKey: String(columnKey) }));
+          if (isPending && !(row && Object.is(row[columnKey], edits[columnKey]))) {
+            kept[columnKey] = edits[columnKey];
+          }
+        });
+        if (Object.keys(kept).length > 0) next.set(key, kept);
+      });
+      return next;
+    });
+  }, [data]);
+
+  // Row keys are computed once per data change rather than on every render
+  const rowKeys = useMemo(
+    () => sortedData.map((row, index) => getRowKey(row, index + dataOffset)),
+    [sortedData, dataOffset, getRowKey]
+  );
+  const rowIndexByKey = useMemo(
+    () => new Map(rowKeys.map((key, index) => [key, index])),
+    [rowKeys]
+  );
 
-      let comparison = 0;
-      if (typeof aValue === 'string' && typeof bValue === 'string') {
-        comparison = aValue.localeCompare(bValue);
-      } else if (typeof aValue === 'number' && typeof bValue === 'number') {
-        comparison = aValue - bValue;
+  // Top-level rows on the current page
+  const pageEntries = useMemo(
+    () => pageData.map((row, pageRowIndex): [string | number, T] => [rowKeys[pageStart + pageRowIndex - dataOffset], row]),
+    [pageData, rowKeys, pageStart, dataOffset]
+  );
+
+  // Grouping. Groups are expanded unless collapsed, and are built from the edited rows
+  // so aggregates reflect pending changes. They hold every matching row (only the loaded
+  // page in manual mode); each page shows the groups and rows that fall on it.
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const rowGroups = useMemo(
+    () => groupRows(sortedData.map((row, index): [string | number, T] => [rowKeys[index], withEdits(row, rowKeys[index])]), groupBy),
+    [sortedData, rowKeys, groupBy, withEdits]
+  );
+  const pageKeySet = useMemo(() => new Set(pageEntries.map(([key]) => key)), [pageEntries]);
+  // Server-side only the loaded page is known, so group counts and aggregates say so
+  const groupCountSuffix = manual ? ' rows on this page' : ' rows';
+
+  const toggleGroupCollapsed = (groupId: string) => {
+    setCollapsedGroups(current => {
+      const next = new Set(current);
+      if (next.has(groupId)) {
+        next.delete(groupId);
       } else {
-        comparison = String(aValue).localeCompare(String(bValue));
+        next.add(groupId);
       }
+      return next;
+    });
+  };
+
+  // Footer aggregates cover every matching top-level row, not just the current page
+  const showAggregateFooter =
+    aggregateFooter !== false && visibleColumns.some(column => column.aggregate) && sortedData.length > 0;
+  const footerAggregates = useMemo(() => {
+    if (!showAggregateFooter) return { rows: [], values: new Map<keyof T, unknown>() };
+    const rows = sortedData.map((row, index) => withEdits(row, rowKeys[index]));
+    const values = new Map(
+      visibleColumns
+        .filter(column => column.aggregate)
+        .map(column => [column.key, computeAggregate(rows, column.key, column.aggregate)])
+    );
+    return { rows, values };
+  }, [showAggregateFooter, sortedData, rowKeys, withEdits, visibleColumns]);
+
+  const scrollOverflow = useScrollOverflow(scrollContainerRef, !showCards);
+  const scrollsVertically = !!virtualized || maxHeight != null;
+  const isHeaderSticky = !!virtualized || stickyHeader;
 
-      return sortConfig.direction === 'desc' ? -comparison : comparison;
+  // Pinned columns stick to their edge. The selection column sticks along with left-pinned
+  // columns and the actions column with right-pinned ones.
+  const stickyColumns = useMemo(() => {
+    const pinned = visibleColumns.map(column => ({ key: String(column.key), pin: getColumnPin(column, columnLayout) }));
+    const hasLeft = pinned.some(column => column.pin === 'left');
+    const hasRight = pinned.some(column => column.pin === 'right');
+    return [
+      ...(selectable ? [{ key: SELECT_STICKY_KEY, pin: hasLeft ? ('left' as const) : undefined }] : []),
+      ...pinned,
+      ...(rowActions ? [{ key: ACTIONS_STICKY_KEY, pin: hasRight ? ('right' as const) : undefined }] : []),
+    ];
+  }, [visibleColumns, columnLayout, selectable, rowActions]);
+  const hasStickyColumns = stickyColumns.some(column => column.pin);
+  const [stickyWidths, setStickyWidths] = useState<Record<string, number>>({});
+  const [headerHeight, setHeaderHeight] = useState(0);
+  const [footerHeight, setFooterHeight] = useState(0);
+
+  // Offsets come from the rendered header cells, since widths are usually content-sized
+  useLayoutEffect(() => {
+    const table = tableRef.current;
+    if (!table || showCards) return;
+
+    const measure = () => {
+      setHeaderHeight(table.tHead?.offsetHeight ?? 0);
+      setFooterHeight(table.tFoot?.offsetHeight ?? 0);
+      if (!hasStickyColumns) return;
+      const widths: Record<string, number> = {};
+      table.querySelectorAll<HTMLElement>('th[data-sticky-key]').forEach(th => {
+        widths[th.dataset.stickyKey] = th.getBoundingClientRect().width;
+      });
+      setStickyWidths(current => {
+        const keys = Object.keys(widths);
+        const unchanged = keys.length === Object.keys(current).length && keys.every(key => current[key] === widths[key]);
+        return unchanged ? current : widths;
+      });
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    table.querySelectorAll('th[data-sticky-key]').forEach(th => observer.observe(th));
+    if (table.tHead) observer.observe(table.tHead);
+    if (table.tFoot) observer.observe(table.tFoot);
+    return () => observer.disconnect();
+  }, [stickyColumns, hasStickyColumns, showCards, showAggregateFooter]);
+
+  const stickyOffsets = useMemo(() => getStickyOffsets(stickyColumns, stickyWidths), [stickyColumns, stickyWidths]);
+
+  // Position and background for a cell in a sticky column; empty when the column scrolls
+  const getStickyCellProps = (key: string, background: StickyBackground) => {
+    const sticky = stickyOffsets.offsets[key];
+    if (!sticky) return { className: undefined, style: undefined };
+    return {
+      className: cn('sticky z-[1]', stickyBackgrounds[background]),
+      style: { [sticky.side]: sticky.offset } as React.CSSProperties,
+    };
+  };
+
+  // Every known row of tree data with its filtered and sorted children, across all pages
+  const treeIndex = useMemo(() => {
+    const tree: TreeIndex<T> = new Map();
+    if (!isTree) return tree;
+
+    const addNode = (row: T, key: string | number, depth: number, parentKey?: string | number) => {
+      const children = getChildRows(row, key)
+        .map((child, index) => ({ row: child, key: getChildKey(child, index, key) }))
+        .filter(child => matchesRow(child.row, child.key));
+      if (compareRows) children.sort((a, b) => compareRows(a.row, b.row));
+
+      tree.set(key, { row, depth, parentKey, childKeys: children.map(child => child.key) });
+      children.forEach(child => addNode(child.row, child.key, depth + 1, key));
+    };
+    sortedData.forEach((row, index) => addNode(row, rowKeys[index], 0));
+    return tree;
+  }, [isTree, sortedData, rowKeys, getChildRows, getChildKey, matchesRow, compareRows]);
+
+  const displayRows = useMemo(() => {
+    const rows: DisplayRow<T>[] = [];
+    let position = pageStart;
+    const addRow = (row: T, key: string | number, depth: number, index: number) => {
+      rows.push({ type: 'row', row, key, depth, index, position: position++ });
+      if (!expandedSet.has(key)) return;
+      if (renderExpandedRow) {
+        rows.push({ type: 'detail', row, key, index });
+      }
+      treeIndex.get(key)?.childKeys.forEach((childKey, childIndex) =>
+        addRow(treeIndex.get(childKey).row, childKey, depth + 1, childIndex)
+      );
+    };
+    const addGroup = (group: RowGroup<T>) => {
+      if (!group.keys.some(key => pageKeySet.has(key))) return;
+      rows.push({ type: 'group', key: group.id, group });
+      if (collapsedGroups.has(group.id)) return;
+      if (group.groups.length > 0) {
+        group.groups.forEach(addGroup);
+        return;
+      }
+      group.keys.forEach(key => {
+        if (!pageKeySet.has(key)) return;
+        const index = rowIndexByKey.get(key);
+        addRow(sortedData[index], key, 0, index + dataOffset);
+      });
+    };
+
+    if (rowGroups.length > 0) {
+      rowGroups.forEach(addGroup);
+      return rows;
+    }
+    pageData.forEach((row, pageRowIndex) => {
+      const index = pageStart + pageRowIndex;
+      addRow(row, rowKeys[index - dataOffset], 0, index);
     });
-  }, [data, sortConfig]);
+    return rows;
+  }, [
+    pageData,
+    pageStart,
+    dataOffset,
+    rowKeys,
+    expandedSet,
+    renderExpandedRow,
+    treeIndex,
+    rowGroups,
+    pageKeySet,
+    collapsedGroups,
+    rowIndexByKey,
+    sortedData,
+  ]);
+  // Read after a page switch has rendered, see scrollToRow
+  const displayRowsRef = useRef(displayRows);
+  displayRowsRef.current = displayRows;
+
+  // Virtualization
+  const virtualOptions = typeof virtualized === 'object' ? virtualized : {};
+  const rowHeight = virtualOptions.rowHeight ?? 53;
+  const rowVirtualizer = useVirtualizer({
+    count: virtualized ? displayRows.length : 0,
+    getScrollElement: () => scrollContainerRef.current,
+    estimateSize: () => rowHeight,
+    overscan: virtualOptions.overscan ?? 10,
+    enabled: !!virtualized,
+  });
+
+  const changePage = (nextPageIndex: number) => {
+    const clamped = Math.max(0, Math.min(nextPageIndex, pageCount - 1));
+    if (clamped === currentPage) return;
+    setPageIndex(clamped);
+    onPageChange?.(clamped, pageSize);
+  };
+
+  const changePageSize = (nextPageSize: number) => {
+    // Stay on the page that contains the first row currently shown
+    const nextPageIndex = Math.floor(pageStart / nextPageSize);
+    setPageSize(nextPageSize);
+    setPageIndex(nextPageIndex);
+    onPageChange?.(nextPageIndex, nextPageSize);
+  };
+
+  const resetPage = () => {
+    if (currentPage === 0) return;
+    setPageIndex(0);
+    onPageChange?.(0, pageSize);
+  };
+
+  const handleFiltersChange = (nextFilters: DataTableFilters) => {
+    resetPage();
+    // "All matching" refers to the previous filters
+    setAllMatchingSelected(false);
+    setFilters(nextFilters);
+  };
+
+  const handleGlobalFilterChange = (nextGlobalFilter: string) => {
+    resetPage();
+    setAllMatchingSelected(false);
+    setGlobalFilter(nextGlobalFilter);
+  };
+
+  // Saved views
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const currentViewState = useMemo<DataTableViewState>(
+    () => ({
+      sortStack: sortStack
+        .filter(sort => sort.direction)
+        .map(sort => ({ key: String(sort.key), direction: sort.direction })),
+      filters,
+      globalFilter,
+      columnLayout,
+    }),
+    [sortStack, filters, globalFilter, columnLayout]
+  );
+
+  const applyView = (view: DataTableView) => {
+    const state = reviveViewState(view.state, columns);
+    resetPage();
+    setAllMatchingSelected(false);
+    setSortStack(state.sortStack);
+    setFilters(state.filters);
+    setGlobalFilter(state.globalFilter);
+    setColumnLayout(state.columnLayout);
+    setActiveViewId(view.id);
+  };
+
+  const savedViews = useDataTableViews(views, store => {
+    const defaultView = store.views.find(view => view.id === store.defaultViewId);
+    if (defaultView) applyView(defaultView);
+  });
+  const activeView = savedViews.views.find(view => view.id === activeViewId) ?? null;
+
+  const saveView = (name: string, state: DataTableViewState) => {
+    const view = savedViews.saveView(getUniqueViewName(name, savedViews.views.map(view => view.name)), state);
+    setActiveViewId(view.id);
+    return view;
+  };
+
+  const showToolbar =
+    searchable || controls.chooser || !!exportable || !!views || columns.some(column => column.filter);
 
-  // Handle sort
-  const handleSort = (columnKey: keyof T) => {
+  // Handle sort. Additive sorts cycle the column in place within the stack;
+  // otherwise the column becomes the only sort.
+  const handleSort = (columnKey: keyof T, additive = false) => {
     const column = columns.find(col => col.key === columnKey);
     if (!column?.sortable) return;
 
-    setSortConfig(current => {
-      if (!current || current.key !== columnKey) {
-        return { key: columnKey, direction: 'asc' };
+    resetPage();
+    setSortStack(current => {
+      const existing = current.find(sort => sort.key === columnKey);
+      const direction = nextSortDirection(existing?.direction);
+
+      if (!additive) {
+        return direction ? [{ key: columnKey, direction }] : []; // Reset to no sort
       }
-      if (current.direction === 'asc') {
-        return { key: columnKey, direction: 'desc' };
+      if (!existing) {
+        return [...current, { key: columnKey, direction }];
       }
-      return null; // Reset to no sort
+      return direction
+        ? current.map(sort => (sort.key === columnKey ? { key: columnKey, direction } : sort))
+        : current.filter(sort => sort.key !== columnKey);
     });
   };
 
-  // Handle row selection
-  const handleRowSelection = (rowKey: string | number, checked: boolean) => {
-    const newSelectedRows = new Set(selectedRows);
-    if (checked) {
-      newSelectedRows.add(rowKey);
-    } else {
-      newSelectedRows.delete(rowKey);
+  const exportConfig = typeof exportable === 'object' ? exportable : {};
+
+  // In manual mode only the loaded page can be exported, plus selected rows from other pages
+  const exportData = (options: DataTableExportOptions = {}) => {
+    const { download = true, rows = 'all', ...serializeOptions } = {
+      filename: exportConfig.filename,
+      bom: exportConfig.bom,
+      locale: exportConfig.locale,
+      ...options,
+    };
+    const exportColumns = visibleColumns
+      .filter(column => column.exportable !== false)
+      .map(column => ({
+        key: String(column.key),
+        title: column.title,
+        getValue: (row: T) => getExportValue(column, row),
+      }));
+
+    let entries = getRowEntries();
+    if (rows === 'selected') {
+      const knownKeys = new Set(entries.map(([key]) => key));
+      entries = [
+        ...entries.filter(([key]) => isRowSelected(key)),
+        ...getSelectedEntries().filter(([key]) => !knownKeys.has(key)),
+      ];
     }
-    setSelectedRows(newSelectedRows);
 
+    const { content, filename, mimeType } = serializeRows(
+      exportColumns,
+      entries.map(([key, row]) => withEdits(row, key)),
+      serializeOptions
+    );
+    if (download) downloadFile(content, filename, mimeType);
+    return content;
+  };
+
+  useImperativeHandle(ref, () => ({
+    scrollToRow: (key, options) => {
+      const index = rowIndexByKey.get(key);
+      const findDisplayIndex = () =>
+        displayRowsRef.current.findIndex(item => item.type === 'row' && item.key === key);
+      // Child rows can only be reached while their parent is expanded on the current page
+      if (index === undefined && findDisplayIndex() === -1) return false;
+
+      // rowKeys covers every page client-side but only the loaded page in manual mode
+      const targetPage = index !== undefined && pageSize && !manual ? Math.floor(index / pageSize) : currentPage;
+      changePage(targetPage);
+
+      // Wait a frame so a page switch has rendered before scrolling
+      requestAnimationFrame(() => {
+        if (virtualized) {
+          rowVirtualizer.scrollToIndex(findDisplayIndex(), { align: options?.align ?? 'auto' });
+        } else {
+          const rowElement = scrollContainerRef.current?.querySelector(
+            `[data-row-key="${CSS.escape(String(key))}"]`
+          );
+          rowElement?.scrollIntoView({
+            block: options?.align === 'auto' || !options?.align ? 'nearest' : options.align,
+          });
+        }
+      });
+      return true;
+    },
+    exportData,
+  }));
+
+  const canSelectRow = (row: T) => isRowSelectable?.(row) ?? true;
+  const isRowSelected = (key: string | number) => allMatchingSelected || selectedKeySet.has(key);
+
+  // Latest version of a row: loaded data first, then the copy kept when it was selected
+  const getRowByKey = (key: string | number): T | undefined => {
+    const row = isTree ? treeIndex.get(key)?.row : sortedData[rowIndexByKey.get(key)];
+    return row ? withEdits(row, key) : selectedRowCacheRef.current.get(key);
+  };
+
+  // The first column usually names the row; the key is the fallback when it is empty
+  const getRowDisplayLabel = (row: T, key: string | number) => {
+    if (getRowLabel) return getRowLabel(row);
+    const label = columns[0] ? formatClipboardValue(getExportValue(columns[0], row)).trim() : '';
+    return label || String(key);
+  };
+
+  const getSelectedEntries = (): [string | number, T][] =>
+    selectedKeys.flatMap(key => {
+      const row = getRowByKey(key);
+      return row ? [[key, row] as [string | number, T]] : [];
+    });
+
+  // `knownRows` covers rows that are not in the table state yet, like freshly loaded children
+  const updateSelection = (nextKeys: Iterable<string | number>, knownRows?: Map<string | number, T>) => {
+    const keys = Array.from(nextKeys);
+    const rowCache = new Map<string | number, T>();
+    keys.forEach(key => {
+      const row = knownRows?.get(key) ?? getRowByKey(key);
+      if (row) rowCache.set(key, row);
+    });
+    selectedRowCacheRef.current = rowCache;
+
+    setSelectedKeys(keys);
+    if (allMatchingSelected) setAllMatchingSelected(false);
     // Call onRowSelect with the actual row objects
-    const selectedRowObjects = sortedData.filter((row, index) => 
-      newSelectedRows.has(getRowKey(row, index))
+    const rows = Array.from(rowCache.values());
+    onSelectionChange?.(keys, rows);
+    onRowSelect?.(rows);
+  };
+
+  // Leaving "all matching" keeps the loaded page selected, like Gmail
+  const getSelectionBase = () =>
+    allMatchingSelected
+      ? new Set([...selectedKeys, ...pageEntries.filter(([, row]) => canSelectRow(row)).map(([key]) => key)])
+      : selectedKeySet;
+
+  // Handle row selection. In tree data the change cascades to descendants and ancestors.
+  const handleRowSelection = (rowKey: string | number, row: T, checked: boolean) => {
+    if (!canSelectRow(row)) return;
+    if (!isMultiSelect) {
+      updateSelection(checked ? [rowKey] : []);
+      return;
+    }
+    updateSelection(cascadeSelection(treeIndex, getSelectionBase(), rowKey, checked, canSelectRow));
+  };
+
+  // Every sorted and filtered row with its key, including all loaded rows of tree data
+  const getRowEntries = (): [string | number, T][] =>
+    isTree
+      ? Array.from(treeIndex, ([key, node]) => [key, node.row])
+      : sortedData.map((row, index) => [rowKeys[index], row]);
+
+  // Selects or clears top-level rows together with their descendants in tree data
+  const setEntriesSelected = (entries: [string | number, T][], checked: boolean) => {
+    let nextKeys = new Set(getSelectionBase());
+    entries.forEach(([key, row]) => {
+      if (!canSelectRow(row)) return;
+      nextKeys = cascadeSelection(treeIndex, nextKeys, key, checked, canSelectRow);
+    });
+    updateSelection(nextKeys);
+  };
+
+  // Handle select all for the current page; the banner then offers every matching row
+  const handleSelectAll = (checked: boolean) => setEntriesSelected(pageEntries, checked);
+
+  const getGroupEntries = (group: RowGroup<T>) =>
+    group.keys.map((key, index): [string | number, T] => [key, group.rows[index]]);
+
+  const getGroupSelection = (group: RowGroup<T>) => {
+    const selectableKeys = group.keys.filter((key, index) => canSelectRow(group.rows[index]));
+    const selectedInGroup = selectableKeys.filter(isRowSelected).length;
+    return {
+      selectable: selectableKeys.length > 0,
+      checked: selectedInGroup > 0 && selectedInGroup === selectableKeys.length,
+      partial: selectedInGroup > 0 && selectedInGroup < selectableKeys.length,
+    };
+  };
+
+  // Client-side every matching row is known; server-side the selection becomes a flag
+  const selectAllMatching = () => {
+    if (manual) {
+      updateSelection(getSelectionBase());
+      setAllMatchingSelected(true);
+      return;
+    }
+    updateSelection(
+      new Set([...selectedKeys, ...getRowEntries().filter(([, row]) => canSelectRow(row)).map(([key]) => key)])
+    );
+  };
+
+  const selectablePageKeys = pageEntries.filter(([, row]) => canSelectRow(row)).map(([key]) => key);
+  const selectedInViewCount = selectablePageKeys.filter(isRowSelected).length;
+  const isAllSelected = selectedInViewCount > 0 && selectedInViewCount === selectablePageKeys.length;
+  const selectedCount = allMatchingSelected ? rowCount : selectedKeys.length;
+  const isPartiallySelected = selectedCount > 0 && !isAllSelected;
+  // Top-level rows matching the filters. Server-side only the total is known.
+  const matchingSelectableKeys = manual
+    ? []
+    : rowKeys.filter((key, index) => canSelectRow(sortedData[index]));
+  const matchingSelectableCount = manual ? rowCount : matchingSelectableKeys.length;
+  const showSelectAllBanner =
+    selectable && isMultiSelect && isAllSelected && matchingSelectableCount > selectablePageKeys.length;
+  const isEveryMatchingRowSelected = allMatchingSelected || (!manual && matchingSelectableKeys.every(isRowSelected));
+
+  // Expansion
+  const canExpandRow = (row: T, key: string | number) =>
+    !!renderExpandedRow ||
+    treeIndex.get(key)?.childKeys.length > 0 ||
+    (!!loadSubRows && !getSubRows?.(row) && !loadedSubRows.has(key) && (hasSubRows?.(row) ?? true));
+
+  const toggleRowExpanded = async (row: T, key: string | number) => {
+    if (expandedSet.has(key)) {
+      setExpandedKeys(current => current.filter(item => item !== key));
+      return;
+    }
+
+    if (loadSubRows && !getSubRows?.(row) && !loadedSubRows.has(key)) {
+      setLoadingSubRows(current => new Set(current).add(key));
+      try {
+        const children = await loadSubRows(row);
+        setLoadedSubRows(current => new Map(current).set(key, children));
+        // Children of a selected row arrive selected
+        if (isMultiSelect && selectedKeySet.has(key)) {
+          const childRows = new Map(
+            children
+              .map((child, index): [string | number, T] => [getChildKey(child, index, key), child])
+              .filter(([, child]) => canSelectRow(child))
+          );
+          updateSelection([...selectedKeys, ...childRows.keys()], childRows);
+        }
+      } catch {
+        // Leave the row collapsed so expanding it again retries the load
+        return;
+      } finally {
+        setLoadingSubRows(current => {
+          const next = new Set(current);
+          next.delete(key);
+          return next;
+        });
+      }
+    }
+    setExpandedKeys(current => (current.includes(key) ? current : [...current, key]));
+  };
+
+  const isExpandable = isTree || !!renderExpandedRow;
+  // Lazily loaded children are not fetched by expand all
+  const expandAll = () => {
+    if (!isTree) {
+      setExpandedKeys(rowKeys);
+      return;
+    }
+    setExpandedKeys(
+      Array.from(treeIndex)
+        .filter(([, node]) => renderExpandedRow || node.childKeys.length > 0)
+        .map(([key]) => key)
     );
-    onRowSelect?.(selectedRowObjects);
   };
 
-  // Handle select all
-  const handleSelectAll = (checked: boolean) => {
-    if (checked) {
-      const allKeys = sortedData.map((row, index) => getRowKey(row, index));
-      setSelectedRows(new Set(allKeys));
-      onRowSelect?.(sortedData);
+  // Row clicks and links. Clicks on controls, ones that end a text selection and ones
+  // bubbling out of menus rendered in portals are not row clicks.
+  const isRowClick = (e: React.MouseEvent<HTMLElement>) => {
+    const target = e.target as HTMLElement;
+    return (
+      e.currentTarget.contains(target) &&
+      !target.closest(INTERACTIVE_SELECTOR) &&
+      !window.getSelection()?.toString() &&
+      // Ending a drag or Shift+click that selected cells
+      !hasCellRange
+    );
+  };
+
+  const openRowHref = (href: string, newTab: boolean) => {
+    if (newTab) {
+      window.open(href, '_blank', 'noopener');
     } else {
-      setSelectedRows(new Set());
-      onRowSelect?.([]);
+      window.location.assign(href);
+    }
+  };
+
+  const activateRow = (row: T, e: React.MouseEvent<HTMLElement> | React.KeyboardEvent<HTMLElement>) => {
+    onRowClick?.(row, e);
+    const href = getRowHref?.(row);
+    if (href && !e.defaultPrevented) openRowHref(href, e.ctrlKey || e.metaKey);
+  };
+
+  const isRowClickable = !!onRowClick || !!getRowHref;
+
+  const getRowEventProps = (row: T) => {
+    const href = getRowHref?.(row);
+    return {
+      onClick: isRowClickable
+        ? (e: React.MouseEvent<HTMLElement>) => {
+            // The second click of a double-click belongs to onRowDoubleClick
+            if (isRowClick(e) && e.detail < 2) activateRow(row, e);
+          }
+        : undefined,
+      onAuxClick: href
+        ? (e: React.MouseEvent<HTMLElement>) => {
+            if (e.button === 1 && isRowClick(e)) openRowHref(href, true);
+          }
+        : undefined,
+      onDoubleClick: onRowDoubleClick
+        ? (e: React.MouseEvent<HTMLElement>) => {
+            // Double-clicking an editable cell opens its editor instead
+            if (isRowClick(e) && !(e.target as HTMLElement).closest('[data-cell-id]')) onRowDoubleClick(row, e);
+          }
+        : undefined,
+    };
+  };
+
+  // Keyboard grid navigation (WAI-ARIA grid pattern). One cell is in the tab order at a
+  // time; rows are display indices and -1 is the header row.
+  const [activeCell, setActiveCell] = useState<GridPosition>({ row: -1, col: 0 });
+  // Where a Shift+arrow range started and the selection it extends
+  // (read lazily, after the click or key that set the anchor has been applied)
+  const selectionRangeRef = useRef<{ anchor: number; base: Set<string | number> | null } | null>(null);
+
+  // Detail panels are skipped; their content is reached with Tab
+  const navigableRows = useMemo(
+    () => [-1, ...displayRows.flatMap((item, displayIndex) => (item.type !== 'detail' ? [displayIndex] : []))],
+    [displayRows]
+  );
+  // The remembered cell may have scrolled off the page or collapsed away
+  const tabStop: GridPosition = {
+    row: navigableRows.includes(activeCell.row) ? activeCell.row : -1,
+    col: Math.min(activeCell.col, colSpan - 1),
+  };
+
+  // Cell range for copy and paste, in grid positions. Ranges cover the data columns of the
+  // current page; group headers and detail panels inside a range are skipped.
+  const [cellRange, setCellRange] = useState<CellRange | null>(null);
+  const isDraggingRangeRef = useRef(false);
+  // The last paste, restored by Ctrl+Z or the Undo button of its toast
+  const lastPasteRef = useRef<PastedCell<T>[] | null>(null);
+  const dataColumnOffset = selectable ? 1 : 0;
+  const isRangeCell = (row: number, col: number) =>
+    cellSelection && row >= 0 && col >= dataColumnOffset && col < dataColumnOffset + visibleColumns.length;
+  const rangeBounds = cellRange ? getRangeBounds(cellRange) : null;
+  // A single cell is only marked by its focus ring
+  const hasCellRange =
+    !!rangeBounds && (rangeBounds.top !== rangeBounds.bottom || rangeBounds.left !== rangeBounds.right);
+  const isInCellRange = (row: number, col: number) =>
+    hasCellRange &&
+    row >= rangeBounds.top &&
+    row <= rangeBounds.bottom &&
+    col >= rangeBounds.left &&
+    col <= rangeBounds.right &&
+    displayRows[row]?.type === 'row';
+
+  // Display indices point at other cells once the page, sort or columns change
+  useEffect(() => {
+    setCellRange(null);
+  }, [pageEntries, visibleColumns]);
+
+  useEffect(() => {
+    if (!cellSelection) return;
+    const stopDragging = () => {
+      isDraggingRangeRef.current = false;
+    };
+    window.addEventListener('mouseup', stopDragging);
+    return () => window.removeEventListener('mouseup', stopDragging);
+  }, [cellSelection]);
+
+  const getGridCellProps = (row: number, col: number) => ({
+    'data-grid-cell': `${row}:${col}`,
+    tabIndex: tabStop.row === row && tabStop.col === col ? 0 : -1,
+    'aria-selected': isInCellRange(row, col) || undefined,
+    onFocus: () => {
+      if (activeCell.row !== row || activeCell.col !== col) setActiveCell({ row, col });
+    },
+    onMouseDown: isRangeCell(row, col)
+      ? (e: React.MouseEvent<HTMLElement>) => {
+          if (e.button !== 0 || (e.target as HTMLElement).closest(INTERACTIVE_SELECTOR)) return;
+          const position = { row, col };
+          if (e.shiftKey) {
+            // Keeps the browser from selecting the text between the two cells
+            e.preventDefault();
+            const anchor = cellRange?.anchor ?? (isRangeCell(activeCell.row, activeCell.col) ? activeCell : position);
+            setCellRange({ anchor, focus: position });
+            focusGridCell(position);
+          } else {
+            setCellRange({ anchor: position, focus: position });
+            isDraggingRangeRef.current = true;
+          }
+        }
+      : undefined,
+    onMouseEnter: isRangeCell(row, col)
+      ? (e: React.MouseEvent<HTMLElement>) => {
+          if (!isDraggingRangeRef.current || !cellRange) return;
+          window.getSelection()?.removeAllRanges();
+          setCellRange({ anchor: cellRange.anchor, focus: { row, col } });
+          // Focus follows the pointer so Shift+arrows carry on from the far corner
+          e.currentTarget.focus({ preventScroll: true });
+        }
+      : undefined,
+  });
+
+  const focusGridCell = (position: GridPosition) => {
+    setActiveCell(position);
+    if (virtualized && position.row >= 0) {
+      rowVirtualizer.scrollToIndex(position.row, { align: 'auto' });
+    }
+    // Virtualized rows may need a second frame to mount after scrolling
+    const focus = (attempts: number) =>
+      requestAnimationFrame(() => {
+        const cellElement = tableRef.current?.querySelector<HTMLElement>(
+          `[data-grid-cell="${position.row}:${position.col}"]`
+        );
+        if (cellElement) {
+          cellElement.focus();
+        } else if (attempts > 1) {
+          focus(attempts - 1);
+        }
+      });
+    focus(3);
+  };
+
+  // Selects the rows between the anchor and the target on top of the selection the range started from
+  const selectRange = (anchor: number, target: number) => {
+    if (selectionRangeRef.current?.anchor !== anchor) {
+      selectionRangeRef.current = { anchor, base: null };
+    }
+    selectionRangeRef.current.base ??= new Set(getSelectionBase());
+    const nextKeys = new Set(selectionRangeRef.current.base);
+    displayRows.slice(Math.min(anchor, target), Math.max(anchor, target) + 1).forEach(item => {
+      if (item.type === 'row' && canSelectRow(item.row)) nextKeys.add(item.key);
+    });
+    updateSelection(nextKeys);
+  };
+
+  // The rows and columns a range covers, with pending edits applied to the rows
+  const getRangeCells = (range: CellRange) => {
+    const { top, bottom, left, right } = getRangeBounds(range);
+    return {
+      items: displayRows.slice(top, bottom + 1).filter(isRowItem),
+      rangeColumns: visibleColumns.slice(left - dataColumnOffset, right - dataColumnOffset + 1),
+    };
+  };
+
+  const copyCellRange = async (range: CellRange, withTitles: boolean) => {
+    const { items, rangeColumns } = getRangeCells(range);
+    const titles = rangeColumns.map(column => column.title);
+    const values = items.map(item => {
+      const row = withEdits(item.row, item.key);
+      return rangeColumns.map(column => formatClipboardValue(getExportValue(column, row)));
+    });
+    try {
+      await writeClipboard(
+        toClipboardText(withTitles ? [titles, ...values] : values),
+        toClipboardHtml(values, withTitles ? titles : undefined)
+      );
+      toast({ title: `Copied ${pluralizeCells(values.length * rangeColumns.length)}` });
+    } catch {
+      toast({ variant: 'destructive', title: "Couldn't copy the cells", description: 'Clipboard access was denied.' });
+    }
+  };
+
+  const undoPaste = () => {
+    const changes = lastPasteRef.current;
+    if (!changes) return;
+    lastPasteRef.current = null;
+    // Through the ref: the toast's Undo button holds on to the render that pasted
+    groupPastedCells(changes, 'previousValue').forEach(({ row, key, values }) =>
+      commitRowEditsRef.current(row, key, values)
+    );
+    toast({ title: `Restored ${pluralizeCells(changes.length)}` });
+  };
+
+  // Pastes a tab-separated block with its top left corner at the range's. A single value
+  // fills the whole range. Nothing is changed unless every cell fits and is valid.
+  const pasteCellRange = async (range: CellRange) => {
+    let text: string;
+    try {
+      text = await navigator.clipboard.readText();
+    } catch {
+      toast({ variant: 'destructive', title: "Couldn't paste", description: 'Clipboard access was denied.' });
+      return;
+    }
+    const block = parseClipboardText(text);
+    if (block.length === 0) return;
+
+    const { top, left } = getRangeBounds(range);
+    const fill = block.length === 1 && block[0].length === 1;
+    const blockWidth = Math.max(...block.map(cells => cells.length));
+    const { items, rangeColumns } = fill
+      ? getRangeCells(range)
+      : {
+          items: displayRows.slice(top).filter(isRowItem).slice(0, block.length),
+          rangeColumns: visibleColumns.slice(left - dataColumnOffset, left - dataColumnOffset + blockWidth),
+        };
+
+    if (!fill && (items.length < block.length || rangeColumns.length < blockWidth)) {
+      toast({
+        variant: 'destructive',
+        title: "Couldn't paste",
+        description: `The copied block is ${block.length} × ${blockWidth}, but only ${items.length} × ${rangeColumns.length} cells fit from here.`,
+      });
+      return;
+    }
+    const readOnlyColumns = rangeColumns.filter(column => !column.editable);
+    if (readOnlyColumns.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: "Couldn't paste",
+        description: `${readOnlyColumns.map(column => column.title).join(', ')} can't be edited.`,
+      });
+      return;
+    }
+
+    const changes: PastedCell<T>[] = [];
+    const failures: { id: string; label: string; message: string }[] = [];
+    items.forEach((item, rowOffset) => {
+      const row = withEdits(item.row, item.key);
+      rangeColumns.forEach((column, columnOffset) => {
+        const input = fill ? block[0][0] : block[rowOffset][columnOffset] ?? '';
+        const previousValue = row[column.key];
+        const editor = normalizeCellEditor(column.editable, previousValue);
+        const parsed = fromClipboardInput(input, previousValue, editor, row);
+        const message =
+          'error' in parsed ? parsed.error : validateCellValue(parsed.value, previousValue, editor, row);
+        if (message) {
+          const id = getCellId({ rowKey: item.key, columnKey: String(column.key) });
+          failures.push({ id, label: `${column.title}, row ${item.index + 1}`, message });
+        } else if ('value' in parsed && !Object.is(previousValue, parsed.value)) {
+          changes.push({ row: item.row, key: item.key, columnKey: column.key, previousValue, value: parsed.value });
+        }
+      });
+    });
+
+    if (failures.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: `Couldn't paste: ${pluralizeCells(failures.length)} ${failures.length === 1 ? 'is' : 'are'} invalid`,
+        description: (
+          <ul className="mt-1 space-y-0.5">
+            {failures.slice(0, 5).map(({ id, label, message }) => (
+              <li key={id}>
+                <span className="font-medium">{label}</span>: {message}
+              </li>
+            ))}
+            {failures.length > 5 && <li>…and {failures.length - 5} more</li>}
+          </ul>
+        ),
+      });
+      return;
+    }
+
+    const lastRow = displayRows.indexOf(items[items.length - 1]);
+    setCellRange({
+      anchor: { row: top, col: left },
+      focus: { row: lastRow, col: left + rangeColumns.length - 1 },
+    });
+    if (changes.length === 0) return;
+
+    groupPastedCells(changes, 'value').forEach(({ row, key, values }) => commitRowEdits(row, key, values));
+    lastPasteRef.current = changes;
+    toast({
+      title: `Pasted ${pluralizeCells(changes.length)}`,
+      action: (
+        <ToastAction altText="Undo paste (Ctrl+Z)" onClick={undoPaste}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const handleGridKeyDown = (e: React.KeyboardEvent<HTMLTableElement>) => {
+    const target = e.target as HTMLElement;
+    const cellElement = target.closest<HTMLElement>('[data-grid-cell]');
+    // Cells handle their own Enter/Space (sorting, editing) before this runs
+    if (!cellElement || e.defaultPrevented) return;
+
+    const [row, col] = cellElement.dataset.gridCell.split(':').map(Number);
+
+    // Focus is on a control inside the cell. Escape returns to the cell and Tab
+    // cycles through the cell's controls, which are kept out of the page tab order.
+    if (target !== cellElement) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        cellElement.focus();
+      } else if (e.key === 'Tab') {
+        const controls = Array.from(cellElement.querySelectorAll<HTMLElement>(CELL_CONTROL_SELECTOR));
+        const controlIndex = controls.findIndex(control => control.contains(target));
+        const nextControl = controls[controlIndex + (e.shiftKey ? -1 : 1)];
+        if (controlIndex !== -1 && nextControl) {
+          e.preventDefault();
+          nextControl.focus();
+        }
+      }
+      return;
+    }
+
+    const position = navigableRows.indexOf(row);
+    const lastCol = colSpan - 1;
+    const pageJump = 10;
+    const toRow = (index: number) => navigableRows[Math.max(0, Math.min(index, navigableRows.length - 1))];
+    const isCtrl = e.ctrlKey || e.metaKey;
+    const targetRange = cellRange ?? (isRangeCell(row, col) ? { anchor: { row, col }, focus: { row, col } } : null);
+    let next: GridPosition | null = null;
+
+    switch (e.key) {
+      case 'ArrowRight':
+        next = { row, col: Math.min(col + 1, lastCol) };
+        break;
+      case 'ArrowLeft':
+        next = { row, col: Math.max(col - 1, 0) };
+        break;
+      case 'ArrowDown':
+        next = { row: toRow(position + 1), col };
+        break;
+      case 'ArrowUp':
+        next = { row: toRow(position - 1), col };
+        break;
+      case 'PageDown':
+        next = { row: toRow(position + pageJump), col };
+        break;
+      case 'PageUp':
+        next = { row: toRow(position - pageJump), col };
+        break;
+      case 'Home':
+        next = isCtrl ? { row: navigableRows[0], col: 0 } : { row, col: 0 };
+        break;
+      case 'End':
+        next = isCtrl ? { row: toRow(navigableRows.length - 1), col: lastCol } : { row, col: lastCol };
+        break;
+      case ' ': {
+        if (!selectable) return;
+        e.preventDefault();
+        if (row === -1) {
+          if (col === 0 && isMultiSelect) handleSelectAll(!isAllSelected);
+          return;
+        }
+        const item = displayRows[row];
+        if (item.type === 'group') {
+          if (isMultiSelect) setEntriesSelected(getGroupEntries(item.group), !getGroupSelection(item.group).checked);
+          return;
+        }
+        handleRowSelection(item.key, withEdits(item.row, item.key), !isRowSelected(item.key));
+        selectionRangeRef.current = { anchor: row, base: null };
+        return;
+      }
+      case 'a':
+      case 'A':
+        if (!isCtrl || !selectable || !isMultiSelect) return;
+        e.preventDefault();
+        selectAllMatching();
+        return;
+      case 'c':
+      case 'C':
+        if (!isCtrl || !targetRange) return;
+        e.preventDefault();
+        copyCellRange(targetRange, e.shiftKey);
+        return;
+      case 'v':
+      case 'V':
+        if (!isCtrl || !targetRange) return;
+        e.preventDefault();
+        pasteCellRange(targetRange);
+        return;
+      case 'z':
+      case 'Z':
+        if (!isCtrl || !cellSelection || !lastPasteRef.current) return;
+        e.preventDefault();
+        undoPaste();
+        return;
+      case 'Escape':
+        if (!cellRange) return;
+        e.preventDefault();
+        setCellRange(null);
+        return;
+      case 'Enter':
+      case 'F2': {
+        // Move into the first control of a cell that has nothing else to do on Enter.
+        // Enter on a cell without controls activates a clickable row instead.
+        const control = cellElement.querySelector<HTMLElement>(CELL_CONTROL_SELECTOR);
+        const item = displayRows[row];
+        if (!control && e.key === 'Enter' && isRowClickable && item?.type === 'row') {
+          activateRow(withEdits(item.row, item.key), e);
+          e.preventDefault();
+          return;
+        }
+        if (!control) return;
+        e.preventDefault();
+        control.focus();
+        return;
+      }
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    const isVertical = e.key === 'ArrowDown' || e.key === 'ArrowUp';
+    // From a data cell Shift extends the cell range; from the checkbox column it selects rows
+    if (e.shiftKey && isRangeCell(row, col) && isRangeCell(next.row, next.col)) {
+      setCellRange({ anchor: cellRange?.anchor ?? { row, col }, focus: next });
+    } else if (e.shiftKey && isVertical && selectable && isMultiSelect && row >= 0 && next.row >= 0) {
+      selectRange(selectionRangeRef.current?.anchor ?? row, next.row);
+    } else if (!e.shiftKey) {
+      selectionRangeRef.current = null;
+      setCellRange(null);
     }
+    focusGridCell(next);
   };
 
-  const isAllSelected = selectedRows.size > 0 && selectedRows.size === sortedData.length;
-  const isPartiallySelected = selectedRows.size > 0 && selectedRows.size < sortedData.length;
+  const getAriaSort = (columnKey: keyof T) => {
+    const sort = sortStack.find(sort => sort.key === columnKey);
+    if (!sort?.direction) return undefined;
+    return sort.direction === 'asc' ? 'ascending' : 'descending';
+  };
 
   // Get sort icon for column
   const getSortIcon = (columnKey: keyof T) => {
     const column = columns.find(col => col.key === columnKey);
     if (!column?.sortable) return null;
 
-    if (!sortConfig || sortConfig.key !== columnKey) {
+    const sortIndex = sortStack.findIndex(sort => sort.key === columnKey && sort.direction);
+    if (sortIndex === -1) {
       return <ChevronsUpDown className="h-4 w-4 text-muted-foreground/60 ml-2 transition-colors-smooth" />;
     }
 
-    return sortConfig.direction === 'asc' ? (
+    const icon = sortStack[sortIndex].direction === 'asc' ? (
       <ChevronUp className="h-4 w-4 text-primary ml-2 transition-colors-smooth" />
     ) : (
       <ChevronDown className="h-4 w-4 text-primary ml-2 transition-colors-smooth" />
     );
+
+    // Priority numbers are only meaningful when sorting by more than one column
+    if (sortStack.length < 2) return icon;
+
+    return (
+      <>
+        {icon}
+        <span className="ml-0.5 text-xs font-medium text-primary tabular-nums" aria-hidden="true">
+          {sortIndex + 1}
+        </span>
+      </>
+    );
+  };
+
+  const focusCell = (cell: CellPosition) => {
+    requestAnimationFrame(() => {
+      const cellElement = scrollContainerRef.current?.querySelector<HTMLElement>(
+        `[data-cell-id="${CSS.escape(getCellId(cell))}"]`
+      );
+      cellElement?.focus();
+    });
+  };
+
+  const setCellError = (cellId: string, error: string | undefined) => {
+    setCellErrors(current => {
+      if (!error && !current.has(cellId)) return current;
+      const next = new Map(current);
+      if (error) {
+        next.set(cellId, error);
+      } else {
+        next.delete(cellId);
+      }
+      return next;
+    });
+  };
+
+  // Optimistically apply a row's edited cells, persist each through onCellEdit and roll back
+  // the ones that fail. Each call gets the row with the other cells changed alongside it.
+  const commitRowEdits = async (row: T, key: string | number, values: Partial<T>) => {
+    const currentRow = withEdits(row, key);
+    const columnKeys = (Object.keys(values) as (keyof T)[]).filter(
+      columnKey => !Object.is(currentRow[columnKey], values[columnKey])
+    );
+    if (columnKeys.length === 0) return;
+
+    const rowEdits = editedValues.get(key);
+    setEditedValues(current => {
+      const next = new Map(current);
+      next.set(key, { ...next.get(key), ...values });
+      return next;
+    });
+    columnKeys.forEach(columnKey => setCellError(getCellId({ rowKey: key, columnKey: String(columnKey) }), undefined));
+    if (!onCellEdit) return;
+
+    await Promise.all(
+      columnKeys.map(async columnKey => {
+        const cellId = getCellId({ rowKey: key, columnKey: String(columnKey) });
+        const previousValue = currentRow[columnKey];
+        const hadEdit = !!rowEdits && columnKey in rowEdits;
+        const otherValues = { ...values };
+        delete otherValues[columnKey];
+
+        setSavingCells(current => new Set(current).add(cellId));
+        pendingEditsRef.current.add(cellId);
+        try {
+          await onCellEdit({ ...currentRow, ...otherValues }, columnKey, values[columnKey]);
+        } catch (error) {
+          setEditedValues(current => {
+            const next = new Map(current);
+            const edits = { ...next.get(key) };
+            if (hadEdit) {
+              edits[columnKey] = previousValue as T[keyof T];
+            } else {
+              delete edits[columnKey];
+            }
+            if (Object.keys(edits).length > 0) {
+              next.set(key, edits);
+            } else {
+              next.delete(key);
+            }
+            return next;
+          });
+          setCellError(cellId, error instanceof Error && error.message ? error.message : 'Could not save the change');
+        } finally {
+          pendingEditsRef.current.delete(cellId);
+          setSavingCells(current => {
+            const next = new Set(current);
+            next.delete(cellId);
+            return next;
+          });
+        }
+      })
+    );
+  };
+
+  const commitEdit = (row: T, key: string | number, columnKey: keyof T, value: unknown) =>
+    commitRowEdits(row, key, { [columnKey]: value } as Partial<T>);
+
+  const commitRowEditsRef = useRef(commitRowEdits);
+  commitRowEditsRef.current = commitRowEdits;
+
+  // Editable cells that open an editor (checkboxes toggle in place), in reading order
+  const getEditableCells = (): CellPosition[] =>
+    displayRows.flatMap(item => {
+      if (item.type !== 'row') return [];
+      return visibleColumns
+        .filter(column => {
+          const editor = normalizeCellEditor(column.editable, item.row[column.key]);
+          return editor && editor.type !== 'checkbox';
+        })
+        .map(column => ({ rowKey: item.key, columnKey: String(column.key) }));
+    });
+
+  const finishEdit = (cell: CellPosition, move?: EditMove) => {
+    if (!move) {
+      setEditingCell(null);
+      focusCell(cell);
+      return;
+    }
+    const editableCells = getEditableCells();
+    const position = editableCells.findIndex(candidate => getCellId(candidate) === getCellId(cell));
+    const nextCell = editableCells[position + (move === 'next' ? 1 : -1)];
+    setEditingCell(nextCell ?? null);
+    if (!nextCell) focusCell(cell);
   };
 
   const renderCellContent = (column: Column<T>, row: T, index: number) => {
@@ -151,166 +1940,1281 @@ function DataTable<T extends Record<string, any>>({
     return value?.toString() || '';
   };
 
-  if (loading) {
+  // Expand toggle in the first cell of a row, indented by its depth in tree data
+  const renderExpander = (row: T, key: string | number, depth: number) => {
+    const isExpanded = expandedSet.has(key);
+    const isLoadingChildren = loadingSubRows.has(key);
+
+    return (
+      <div className="flex shrink-0 items-center" style={{ paddingLeft: depth * 24 }}>
+        {canExpandRow(row, key) ? (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleRowExpanded(row, key);
+            }}
+            onDoubleClick={(e) => e.stopPropagation()}
+            disabled={isLoadingChildren}
+            tabIndex={-1}
+            aria-expanded={isExpanded}
+            aria-label={isExpanded ? 'Collapse row' : 'Expand row'}
+            className="mr-2 rounded-md p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground focus-ring"
+          >
+            {isLoadingChildren ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <ChevronRight className={cn('h-4 w-4 transition-transform', isExpanded && 'rotate-90')} />
+            )}
+          </button>
+        ) : (
+          // Keeps leaf rows aligned with their expandable siblings
+          <span className="mr-2 w-5" aria-hidden="true" />
+        )}
+      </div>
+    );
+  };
+
+  const renderCell = (
+    column: Column<T>,
+    originalRow: T,
+    row: T,
+    key: string | number,
+    index: number,
+    gridCellProps: ReturnType<typeof getGridCellProps>,
+    expander?: React.ReactNode,
+    href?: string,
+    background: StickyBackground = 'odd'
+  ) => {
+    const columnKey = String(column.key);
+    const cell = { rowKey: key, columnKey };
+    const sticky = getStickyCellProps(columnKey, background);
+    const cellId = getCellId(cell);
+    const value = row[column.key];
+    const editor = normalizeCellEditor(column.editable, value);
+    const isEditing = !!editor && editingCell !== null && getCellId(editingCell) === cellId;
+    const error = cellErrors.get(cellId);
+    const isSaving = savingCells.has(cellId);
+
+    const startEdit = () => {
+      if (editor?.type === 'checkbox') {
+        commitEdit(originalRow, key, column.key, !value);
+      } else if (editor) {
+        setEditingCell(cell);
+      }
+    };
+
+    let content: React.ReactNode;
+    if (isEditing) {
+      content = (
+        <DataTableCellEditor
+          editor={editor}
+          value={value}
+          row={row}
+          label={column.title}
+          onCommit={(nextValue, move) => {
+            commitEdit(originalRow, key, column.key, nextValue);
+            finishEdit(cell, move);
+          }}
+          onCancel={() => finishEdit(cell)}
+        />
+      );
+    } else if (editor?.type === 'checkbox') {
+      content = (
+        <Checkbox
+          checked={!!value}
+          onCheckedChange={checked => commitEdit(originalRow, key, column.key, checked === true)}
+          aria-label={`${column.title} for row ${index + 1}`}
+          tabIndex={-1}
+        />
+      );
+    } else {
+      content = renderCellContent(column, row, index);
+      if (href) {
+        content = (
+          <a
+            href={href}
+            tabIndex={-1}
+            className="font-medium text-foreground hover:text-primary hover:underline focus-ring rounded-sm"
+          >
+            {content}
+          </a>
+        );
+      }
+    }
+
     return (
-      <div className={cn('rounded-xl border border-border bg-card shadow-elegant overflow-hidden', className)}>
-        <div className="flex flex-col items-center justify-center h-64 p-8">
-          <div className="flex items-center space-x-3 text-muted-foreground mb-4">
-            <Loader2 className="h-8 w-8 animate-spin text-primary" />
-            <span className="text-lg font-medium">Loading data...</span>
+      <td
+        key={columnKey}
+        {...gridCellProps}
+        data-cell-id={editor ? cellId : undefined}
+        onDoubleClick={editor && !isEditing ? startEdit : undefined}
+        onKeyDown={
+          editor && !isEditing
+            ? (e) => {
+                if (e.target !== e.currentTarget) return;
+                if (e.key === 'Enter' || e.key === 'F2' || (e.key === ' ' && editor.type === 'checkbox')) {
+                  e.preventDefault();
+                  startEdit();
+                }
+              }
+            : undefined
+        }
+        aria-invalid={error ? true : undefined}
+        aria-busy={isSaving || undefined}
+        className={cn(
+          'px-6 py-4 text-sm text-foreground',
+          'first:pl-6 last:pr-6',
+          gridCellFocusClass,
+          cellSelection && cellRangeClass,
+          column.align === 'center' && 'text-center',
+          column.align === 'right' && 'text-right',
+          editor && !isEditing && 'cursor-text hover:bg-muted/50',
+          isEditing && 'py-2',
+          hasResizedColumns && !isEditing && 'overflow-hidden text-ellipsis',
+          isSaving && 'opacity-60',
+          sticky.className,
+          error && 'bg-destructive/5 ring-1 ring-inset ring-destructive'
+        )}
+        style={sticky.style}
+      >
+        {expander ? (
+          <div
+            className={cn(
+              'flex items-center',
+              column.align === 'center' && 'justify-center',
+              column.align === 'right' && 'justify-end'
+            )}
+          >
+            {expander}
+            <div className={cn('min-w-0', hasResizedColumns && 'truncate')}>{content}</div>
           </div>
-          <p className="text-sm text-muted-foreground">Please wait while we fetch your data</p>
+        ) : (
+          content
+        )}
+        {error && !isEditing && (
+          <p className="mt-1 text-xs text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+      </td>
+    );
+  };
+
+  const renderAggregateValue = (column: Column<T>, value: unknown, rows: T[]) =>
+    column.renderAggregate ? column.renderAggregate(value, rows) : formatAggregate(value);
+
+  // The grouped value as its column renders it
+  const renderGroupValue = (group: RowGroup<T>, groupColumn: Column<T> | undefined) => {
+    if (group.value == null || group.value === '') {
+      return <span className="italic text-muted-foreground">Empty</span>;
+    }
+    if (groupColumn?.render) {
+      return groupColumn.render(group.value, group.rows[0], rowIndexByKey.get(group.keys[0]) + dataOffset);
+    }
+    return String(group.value);
+  };
+
+  // Group header: toggle, value and row count in the first column, aggregates under their columns
+  const renderGroupRow = (group: RowGroup<T>, displayIndex: number) => {
+    const isCollapsed = collapsedGroups.has(group.id);
+    const groupColumn = columns.find(col => col.key === group.columnKey);
+    const title = groupColumn?.title ?? String(group.columnKey);
+    const selection = getGroupSelection(group);
+    const isEmptyValue = group.value == null || group.value === '';
+    const selectSticky = getStickyCellProps(SELECT_STICKY_KEY, 'group');
+    const actionsSticky = getStickyCellProps(ACTIONS_STICKY_KEY, 'group');
+
+    return (
+      <tr
+        key={`group-${group.id}`}
+        aria-rowindex={pageStart + displayIndex + 2}
+        data-index={virtualized ? displayIndex : undefined}
+        ref={virtualized && virtualOptions.measureRows ? rowVirtualizer.measureElement : undefined}
+        style={virtualized && !virtualOptions.measureRows ? { height: rowHeight } : undefined}
+        className="bg-muted/50 font-medium"
+      >
+        {selectable && (
+          <td
+            {...getGridCellProps(displayIndex, 0)}
+            className={cn('px-6 py-3', gridCellFocusClass, selectSticky.className)}
+            style={selectSticky.style}
+          >
+            {isMultiSelect && (
+              <Checkbox
+                checked={selection.checked || selection.partial}
+                onCheckedChange={() => setEntriesSelected(getGroupEntries(group), !selection.checked)}
+                disabled={!selection.selectable}
+                aria-label={`Select ${title} ${isEmptyValue ? 'empty' : String(group.value)} group`}
+                tabIndex={-1}
+                className={cn(
+                  "transition-colors-smooth",
+                  selection.partial && "data-[state=checked]:bg-muted-foreground"
+                )}
+              />
+            )}
+          </td>
+        )}
+        {visibleColumns.map((column, columnIndex) => {
+          const gridCellProps = getGridCellProps(displayIndex, columnIndex + (selectable ? 1 : 0));
+          const sticky = getStickyCellProps(String(column.key), 'group');
+
+          if (columnIndex === 0) {
+            return (
+              <td
+                key={String(column.key)}
+                {...gridCellProps}
+                onKeyDown={(e) => {
+                  if (e.target !== e.currentTarget) return;
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    toggleGroupCollapsed(group.id);
+                  }
+                }}
+                className={cn('px-6 py-3 text-sm text-foreground whitespace-nowrap', gridCellFocusClass, sticky.className)}
+                style={sticky.style}
+              >
+                <div className="flex items-center" style={{ paddingLeft: group.depth * 24 }}>
+                  <button
+                    type="button"
+                    onClick={() => toggleGroupCollapsed(group.id)}
+                    tabIndex={-1}
+                    aria-expanded={!isCollapsed}
+                    aria-label={isCollapsed ? 'Expand group' : 'Collapse group'}
+                    className="mr-2 rounded-md p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground focus-ring"
+                  >
+                    <ChevronRight className={cn('h-4 w-4 transition-transform', !isCollapsed && 'rotate-90')} />
+                  </button>
+                  <span className="mr-1.5 text-muted-foreground">{title}:</span>
+                  {renderGroupValue(group, groupColumn)}
+                  <span
+                    title={manual ? 'Rows on this page' : undefined}
+                    className="ml-2 rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground tabular-nums"
+                  >
+                    {group.rows.length}
+                    <span className="sr-only">{groupCountSuffix}</span>
+                  </span>
+                </div>
+              </td>
+            );
+          }
+
+          return (
+            <td
+              key={String(column.key)}
+              {...gridCellProps}
+              className={cn(
+                'px-6 py-3 text-sm text-foreground',
+                gridCellFocusClass,
+                column.align === 'center' && 'text-center',
+                column.align === 'right' && 'text-right',
+                sticky.className
+              )}
+              style={sticky.style}
+            >
+              {column.aggregate &&
+                renderAggregateValue(column, computeAggregate(group.rows, column.key, column.aggregate), group.rows)}
+            </td>
+          );
+        })}
+        {rowActions && (
+          <td
+            {...getGridCellProps(displayIndex, colSpan - 1)}
+            className={cn(gridCellFocusClass, actionsSticky.className)}
+            style={actionsSticky.style}
+          />
+        )}
+      </tr>
+    );
+  };
+
+  const renderRow = (displayRow: DisplayRow<T>, displayIndex: number) => {
+    if (displayRow.type === 'group') {
+      return renderGroupRow(displayRow.group, displayIndex);
+    }
+
+    const { key, index } = displayRow;
+    const row = withEdits(displayRow.row, key);
+
+    if (displayRow.type === 'detail') {
+      return (
+        <tr
+          key={`${key}-detail`}
+          aria-rowindex={pageStart + displayIndex + 2}
+          data-index={virtualized ? displayIndex : undefined}
+          // Detail panels vary in height, so they are always measured
+          ref={virtualized ? rowVirtualizer.measureElement : undefined}
+          className="bg-muted/10"
+        >
+          <td colSpan={colSpan} className="px-6 py-4">
+            {renderExpandedRow(row, index)}
+          </td>
+        </tr>
+      );
+    }
+
+    const isSelected = isRowSelected(key);
+    const isRowPartiallySelected = isTree && isPartiallySelectedNode(treeIndex, isRowSelected, key);
+    const isEven = displayRow.position % 2 === 0;
+    const actions = rowActions?.(row) ?? [];
+    const background: StickyBackground = isSelected ? 'selected' : isEven ? 'even' : 'odd';
+    const selectSticky = getStickyCellProps(SELECT_STICKY_KEY, background);
+    const actionsSticky = getStickyCellProps(ACTIONS_STICKY_KEY, background);
+
+    return (
+      <DataTableRowContextMenu key={key} row={row} actions={actions}>
+        <tr
+          data-row-key={key}
+          aria-rowindex={pageStart + displayIndex + 2}
+          aria-selected={selectable ? isSelected : undefined}
+          data-index={virtualized ? displayIndex : undefined}
+          ref={virtualized && virtualOptions.measureRows ? rowVirtualizer.measureElement : undefined}
+          style={virtualized && !virtualOptions.measureRows ? { height: rowHeight } : undefined}
+          {...getRowEventProps(row)}
+          className={cn(
+            'transition-colors-smooth group',
+            'hover:bg-muted/40 hover:shadow-sm',
+            isRowClickable && 'cursor-pointer',
+            isSelected && 'bg-primary-light border-l-4 border-l-primary',
+            !isSelected && isEven && 'bg-muted/20',
+            !isSelected && !isEven && 'bg-background'
+          )}
+        >
+          {selectable && (
+            <td
+              {...getGridCellProps(displayIndex, 0)}
+              className={cn('px-6 py-4', gridCellFocusClass, selectSticky.className)}
+              style={selectSticky.style}
+            >
+              <Checkbox
+                checked={isSelected || isRowPartiallySelected}
+                onClick={(e) => {
+                  // Shift-click selects every row from the last clicked one
+                  if (e.shiftKey && isMultiSelect && selectionRangeRef.current) {
+                    e.preventDefault();
+                    selectRange(selectionRangeRef.current.anchor, displayIndex);
+                  }
+                }}
+                onCheckedChange={() => {
+                  handleRowSelection(key, row, !isSelected);
+                  selectionRangeRef.current = { anchor: displayIndex, base: null };
+                }}
+                disabled={!canSelectRow(row)}
+                aria-label={`Select row ${index + 1}`}
+                tabIndex={-1}
+                className={cn(
+                  "transition-colors-smooth",
+                  isRowPartiallySelected && "data-[state=checked]:bg-muted-foreground"
+                )}
+              />
+            </td>
+          )}
+          {visibleColumns.map((column, columnIndex) =>
+            renderCell(
+              column,
+              displayRow.row,
+              row,
+              key,
+              index,
+              getGridCellProps(displayIndex, columnIndex + (selectable ? 1 : 0)),
+              isExpandable && columnIndex === 0 ? renderExpander(row, key, displayRow.depth) : undefined,
+              columnIndex === 0 ? getRowHref?.(row) : undefined,
+              background
+            )
+          )}
+          {rowActions && (
+            <td
+              {...getGridCellProps(displayIndex, colSpan - 1)}
+              className={cn(
+                'w-14 px-2 py-2 text-right',
+                gridCellFocusClass,
+                actionsSticky.className
+              )}
+              style={actionsSticky.style}
+            >
+              {actions.length > 0 && (
+                <DataTableRowActionsMenu
+                  row={row}
+                  actions={actions}
+                  label={`Actions for row ${index + 1}`}
+                  tabIndex={-1}
+                />
+              )}
+            </td>
+          )}
+        </tr>
+      </DataTableRowContextMenu>
+    );
+  };
+
+  // Mobile counterpart of renderGroupRow
+  const renderGroupCard = (group: RowGroup<T>) => {
+    const isCollapsed = collapsedGroups.has(group.id);
+    const groupColumn = columns.find(col => col.key === group.columnKey);
+    const title = groupColumn?.title ?? String(group.columnKey);
+    const selection = getGroupSelection(group);
+    const isEmptyValue = group.value == null || group.value === '';
+    const aggregates = cardFields.details.filter(column => column.aggregate);
+
+    return (
+      <li key={`group-${group.id}`} className="rounded-lg bg-muted/50 px-4 py-3" style={{ marginLeft: group.depth * 16 }}>
+        <div className="flex items-center gap-3 text-sm font-medium">
+          {selectable && isMultiSelect && (
+            <Checkbox
+              checked={selection.checked || selection.partial}
+              onCheckedChange={() => setEntriesSelected(getGroupEntries(group), !selection.checked)}
+              disabled={!selection.selectable}
+              aria-label={`Select ${title} ${isEmptyValue ? 'empty' : String(group.value)} group`}
+              className={cn(
+                "transition-colors-smooth",
+                selection.partial && "data-[state=checked]:bg-muted-foreground"
+              )}
+            />
+          )}
+          <button
+            type="button"
+            onClick={() => toggleGroupCollapsed(group.id)}
+            aria-expanded={!isCollapsed}
+            className="flex min-w-0 flex-1 items-center text-left focus-ring rounded-md"
+          >
+            <ChevronRight className={cn('mr-2 h-4 w-4 shrink-0 transition-transform', !isCollapsed && 'rotate-90')} />
+            <span className="mr-1.5 text-muted-foreground">{title}:</span>
+            <span className="truncate">{renderGroupValue(group, groupColumn)}</span>
+            <span
+              title={manual ? 'Rows on this page' : undefined}
+              className="ml-2 rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground tabular-nums"
+            >
+              {group.rows.length}
+              <span className="sr-only">{groupCountSuffix}</span>
+            </span>
+          </button>
         </div>
-      </div>
+        {aggregates.length > 0 && (
+          <dl className="mt-2 flex flex-wrap gap-x-4 gap-y-1 pl-6 text-xs text-muted-foreground">
+            {aggregates.map(column => (
+              <div key={String(column.key)} className="flex gap-1">
+                <dt>{column.title}:</dt>
+                <dd className="font-medium text-foreground">
+                  {renderAggregateValue(column, computeAggregate(group.rows, column.key, column.aggregate), group.rows)}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </li>
     );
-  }
+  };
 
-  return (
-    <div className={cn('rounded-xl border border-border bg-card shadow-elegant overflow-hidden', className)}>
-      <div className="overflow-x-auto">
-        <table className="w-full">
-          <thead>
-            <tr className="border-b border-border bg-muted/30">
+  // Mobile counterpart of renderRow: the primary field as the title, then label/value pairs.
+  // Detail panels are rendered inside their row's card.
+  const renderCard = (displayRow: DisplayRow<T>) => {
+    if (displayRow.type === 'group') return renderGroupCard(displayRow.group);
+    if (displayRow.type === 'detail') return null;
+
+    const { key, index, depth } = displayRow;
+    const row = withEdits(displayRow.row, key);
+    const isSelected = isRowSelected(key);
+    const isRowPartiallySelected = isTree && isPartiallySelectedNode(treeIndex, isRowSelected, key);
+    const isExpanded = expandedSet.has(key);
+    const { primary, secondary, details } = cardFields;
+    const actions = rowActions?.(row) ?? [];
+    const href = getRowHref?.(row);
+
+    return (
+      <li key={key} data-row-key={key} style={{ marginLeft: depth * 16 }}>
+        <DataTableRowContextMenu row={row} actions={actions}>
+          <Card
+            aria-selected={selectable ? isSelected : undefined}
+            {...getRowEventProps(row)}
+            className={cn(
+              'p-4 transition-colors-smooth',
+              isRowClickable && 'cursor-pointer',
+              isSelected && 'border-primary bg-primary-light'
+            )}
+          >
+            <div className="flex items-start gap-3">
               {selectable && (
-                <th className="w-12 px-6 py-4 text-left">
-                  <Checkbox
-                    checked={isAllSelected || isPartiallySelected}
-                    onCheckedChange={handleSelectAll}
-                    aria-label="Select all rows"
-                    className={cn(
-                      "transition-colors-smooth",
-                      isPartiallySelected && "data-[state=checked]:bg-muted-foreground"
-                    )}
-                  />
-                </th>
-              )}
-              {columns.map((column) => (
-                <th
-                  key={String(column.key)}
+                <Checkbox
+                  checked={isSelected || isRowPartiallySelected}
+                  onCheckedChange={() => handleRowSelection(key, row, !isSelected)}
+                  disabled={!canSelectRow(row)}
+                  aria-label={`Select row ${index + 1}`}
                   className={cn(
-                    'px-6 py-4 text-sm font-semibold text-foreground/90',
-                    'first:pl-6 last:pr-6',
-                    column.align === 'center' && 'text-center',
-                    column.align === 'right' && 'text-right',
-                    column.sortable && [
-                      'cursor-pointer hover:text-primary transition-colors-smooth select-none',
-                      'hover:bg-muted/50 focus:bg-muted/50 focus:outline-none'
-                    ]
+                    "mt-0.5 transition-colors-smooth",
+                    isRowPartiallySelected && "data-[state=checked]:bg-muted-foreground"
                   )}
-                  style={{ width: column.width }}
-                  onClick={() => handleSort(column.key)}
-                  role={column.sortable ? 'button' : undefined}
-                  tabIndex={column.sortable ? 0 : undefined}
-                  onKeyDown={(e) => {
-                    if (column.sortable && (e.key === 'Enter' || e.key === ' ')) {
-                      e.preventDefault();
-                      handleSort(column.key);
-                    }
-                  }}
-                  aria-sort={
-                    sortConfig?.key === column.key
-                      ? sortConfig.direction === 'asc'
-                        ? 'ascending'
-                        : 'descending'
-                      : undefined
-                  }
-                >
-                  <div className="flex items-center justify-start">
-                    <span>{column.title}</span>
-                    {getSortIcon(column.key)}
+                />
+              )}
+              <div className="min-w-0 flex-1">
+                {primary && (
+                  <div className="font-medium text-foreground">
+                    {href ? (
+                      <a href={href} className="hover:text-primary hover:underline focus-ring rounded-sm">
+                        {renderCellContent(primary, row, index)}
+                      </a>
+                    ) : (
+                      renderCellContent(primary, row, index)
+                    )}
                   </div>
-                </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-border/50">
-            {sortedData.length === 0 ? (
-              <tr>
-                <td
-                  colSpan={columns.length + (selectable ? 1 : 0)}
-                  className="px-6 py-16 text-center"
+                )}
+                {secondary.map(column => (
+                  <div key={String(column.key)} className="text-sm text-muted-foreground">
+                    {renderCellContent(column, row, index)}
+                  </div>
+                ))}
+              </div>
+              {isExpandable && canExpandRow(row, key) && (
+                <button
+                  type="button"
+                  onClick={() => toggleRowExpanded(row, key)}
+                  disabled={loadingSubRows.has(key)}
+                  aria-expanded={isExpanded}
+                  aria-label={isExpanded ? 'Collapse row' : 'Expand row'}
+                  className="rounded-md p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground focus-ring"
                 >
-                  <div className="flex flex-col items-center space-y-4">
-                    <div className="w-16 h-16 rounded-full bg-muted/50 flex items-center justify-center">
-                      {emptyIcon || <FileText className="h-8 w-8 text-muted-foreground/60" />}
-                    </div>
-                    <div className="space-y-2">
-                      <h3 className="text-lg font-medium text-foreground">{emptyMessage}</h3>
-                      <p className="text-sm text-muted-foreground max-w-sm">
-                        There's no data to display at the moment. Try adjusting your filters or adding new entries.
-                      </p>
-                    </div>
+                  {loadingSubRows.has(key) ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <ChevronRight className={cn('h-4 w-4 transition-transform', isExpanded && 'rotate-90')} />
+                  )}
+                </button>
+              )}
+              {actions.length > 0 && (
+                <DataTableRowActionsMenu row={row} actions={actions} label={`Actions for row ${index + 1}`} />
+              )}
+            </div>
+            {details.length > 0 && (
+              <dl className="mt-3 space-y-2 text-sm">
+                {details.map(column => (
+                  <div key={String(column.key)} className="flex items-start justify-between gap-4">
+                    <dt className="shrink-0 text-muted-foreground">{column.title}</dt>
+                    <dd className="min-w-0 break-words text-right text-foreground">
+                      {renderCellContent(column, row, index)}
+                    </dd>
                   </div>
-                </td>
-              </tr>
-            ) : (
-              sortedData.map((row, index) => {
-                const key = getRowKey(row, index);
-                const isSelected = selectedRows.has(key);
-                const isEven = index % 2 === 0;
-                
-                return (
-                  <tr
-                    key={key}
-                    className={cn(
-                      'transition-colors-smooth group',
-                      'hover:bg-muted/40 hover:shadow-sm',
-                      isSelected && 'bg-primary-light border-l-4 border-l-primary',
-                      !isSelected && isEven && 'bg-muted/20',
-                      !isSelected && !isEven && 'bg-background'
-                    )}
-                  >
-                    {selectable && (
-                      <td className="px-6 py-4">
+                ))}
+              </dl>
+            )}
+            {isExpanded && renderExpandedRow && (
+              <div className="mt-3 border-t border-border pt-3">{renderExpandedRow(row, index)}</div>
+            )}
+          </Card>
+        </DataTableRowContextMenu>
+      </li>
+    );
+  };
+
+  const getColumnStyle = (column: Column<T>): React.CSSProperties => {
+    const width = columnLayout.widths[String(column.key)];
+    return width ? { width, minWidth: width, maxWidth: width } : { width: column.width };
+  };
+
+  // Drag a header border to resize. The first resize freezes every column at its
+  // current width so switching to a fixed table layout doesn't shift the others.
+  const startResize = (e: React.PointerEvent<HTMLElement>, column: Column<T>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    isResizingRef.current = true;
+
+    const key = String(column.key);
+    const headerCell = e.currentTarget.closest('th');
+    const startX = e.clientX;
+    const startWidth = headerCell.getBoundingClientRect().width;
+    const minWidth = column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH;
+
+    if (!hasResizedColumns) {
+      const widths: Record<string, number> = {};
+      tableRef.current?.querySelectorAll<HTMLElement>('th[data-column-key]').forEach(cell => {
+        widths[cell.dataset.columnKey] = Math.round(cell.getBoundingClientRect().width);
+      });
+      setColumnLayout(layout => ({ ...layout, widths: { ...widths, ...layout.widths } }));
+    }
+
+    const handlePointerMove = (event: PointerEvent) => {
+      setColumnLayout(layout => setColumnWidth(layout, key, Math.max(minWidth, startWidth + event.clientX - startX)));
+    };
+    const handlePointerUp = () => {
+      isResizingRef.current = false;
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+  };
+
+  const resizeBy = (column: Column<T>, delta: number) => {
+    const key = String(column.key);
+    const headerCell = tableRef.current?.querySelector<HTMLElement>(`th[data-column-key="${CSS.escape(key)}"]`);
+    const currentWidth = columnLayout.widths[key] ?? headerCell?.getBoundingClientRect().width ?? 0;
+    const minWidth = column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH;
+    setColumnLayout(layout => setColumnWidth(layout, key, Math.max(minWidth, currentWidth + delta)));
+  };
+
+  const handleColumnDrop = (targetKey: string) => {
+    if (draggedColumn && draggedColumn !== targetKey) {
+      setColumnLayout(layout => moveColumn(columns, layout, draggedColumn, targetKey));
+    }
+    setDraggedColumn(null);
+    setDropTargetColumn(null);
+  };
+
+  const renderHeaderCell = (column: Column<T>, visibleIndex: number) => {
+    const key = String(column.key);
+    const pin = getColumnPin(column, columnLayout);
+    const canReorder = controls.reorder;
+    const canResize = controls.resize && column.resizable !== false;
+    const canHide = controls.chooser && column.hideable !== false;
+    const groupIndex = groupBy.indexOf(column.key);
+    const showMenu = canReorder || controls.pin || canHide || !!column.groupable;
+    // Columns only move within their pin group
+    const previousColumn = visibleColumns[visibleIndex - 1];
+    const nextColumn = visibleColumns[visibleIndex + 1];
+    const canMoveLeft = !!previousColumn && getColumnPin(previousColumn, columnLayout) === pin;
+    const canMoveRight = !!nextColumn && getColumnPin(nextColumn, columnLayout) === pin;
+    const sticky = getStickyCellProps(key, 'header');
+
+    return (
+      <th
+        key={key}
+        {...getGridCellProps(-1, visibleIndex + (selectable ? 1 : 0))}
+        data-column-key={key}
+        data-sticky-key={key}
+        className={cn(
+          'relative px-6 py-4 text-sm font-semibold text-foreground/90 group/header',
+          'first:pl-6 last:pr-6',
+          gridCellFocusClass,
+          column.align === 'center' && 'text-center',
+          column.align === 'right' && 'text-right',
+          column.sortable && [
+            'cursor-pointer hover:text-primary transition-colors-smooth select-none',
+            'hover:bg-muted/50 focus:bg-muted/50'
+          ],
+          pin === 'left' && 'border-r border-border',
+          pin === 'right' && 'border-l border-border',
+          sticky.className,
+          draggedColumn === key && 'opacity-50',
+          dropTargetColumn === key && draggedColumn !== key && 'bg-primary/10'
+        )}
+        style={{ ...getColumnStyle(column), ...sticky.style }}
+        onClick={(e) => handleSort(column.key, multiSort || e.shiftKey)}
+        onKeyDown={(e) => {
+          if (e.target !== e.currentTarget) return;
+          if (column.sortable && (e.key === 'Enter' || e.key === ' ')) {
+            e.preventDefault();
+            handleSort(column.key, multiSort || e.shiftKey);
+          }
+        }}
+        aria-sort={getAriaSort(column.key)}
+        draggable={canReorder}
+        onDragStart={canReorder ? (e) => {
+          if (isResizingRef.current) {
+            e.preventDefault();
+            return;
+          }
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', key);
+          setDraggedColumn(key);
+        } : undefined}
+        onDragOver={canReorder && draggedColumn ? (e) => {
+          e.preventDefault();
+          setDropTargetColumn(key);
+        } : undefined}
+        onDragLeave={canReorder ? () => setDropTargetColumn(current => (current === key ? null : current)) : undefined}
+        onDrop={canReorder ? (e) => {
+          e.preventDefault();
+          handleColumnDrop(key);
+        } : undefined}
+        onDragEnd={canReorder ? () => {
+          setDraggedColumn(null);
+          setDropTargetColumn(null);
+        } : undefined}
+      >
+        <div className="flex items-center justify-start">
+          {isExpandable && visibleIndex === 0 && (
+            <button
+              type="button"
+              // The header itself sorts on click
+              onClick={(e) => {
+                e.stopPropagation();
+                if (expandedKeys.length > 0) {
+                  setExpandedKeys([]);
+                } else {
+                  expandAll();
+                }
+              }}
+              tabIndex={-1}
+              aria-label={expandedKeys.length > 0 ? 'Collapse all rows' : 'Expand all rows'}
+              className="mr-2 rounded-md p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground focus-ring"
+            >
+              <ChevronRight className={cn('h-4 w-4 transition-transform', expandedKeys.length > 0 && 'rotate-90')} />
+            </button>
+          )}
+          {pin && <Pin className="h-3 w-3 mr-1.5 text-muted-foreground" aria-label={`Pinned ${pin}`} />}
+          {groupIndex !== -1 && (
+            <Group
+              className="h-3 w-3 mr-1.5 text-primary"
+              aria-label={groupBy.length > 1 ? `Grouped, level ${groupIndex + 1}` : 'Grouped'}
+            />
+          )}
+          <span className={cn(hasResizedColumns && 'truncate')}>{column.title}</span>
+          {getSortIcon(column.key)}
+          {showMenu && (
+            <DataTableColumnMenu
+              title={column.title}
+              pin={pin}
+              canReorder={canReorder}
+              canPin={controls.pin}
+              canHide={canHide}
+              canGroup={!!column.groupable}
+              grouped={groupIndex !== -1}
+              canMoveLeft={canMoveLeft}
+              canMoveRight={canMoveRight}
+              onMove={direction =>
+                setColumnLayout(layout =>
+                  moveColumn(columns, layout, key, String((direction === 'left' ? previousColumn : nextColumn).key))
+                )
+              }
+              onPin={nextPin => setColumnLayout(layout => setColumnPin(layout, key, nextPin))}
+              onHide={() => setColumnLayout(layout => setColumnHidden(layout, key, true))}
+              onGroupChange={grouped =>
+                setGroupBy(current =>
+                  grouped ? [...current, column.key] : current.filter(groupKey => groupKey !== column.key)
+                )
+              }
+            />
+          )}
+        </div>
+        {canResize && (
+          <div
+            role="separator"
+            aria-orientation="vertical"
+            aria-label={`Resize ${column.title} column`}
+            tabIndex={-1}
+            onPointerDown={(e) => startResize(e, column)}
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+              if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+                e.preventDefault();
+                e.stopPropagation();
+                resizeBy(column, e.key === 'ArrowLeft' ? -10 : 10);
+              }
+            }}
+            className={cn(
+              'absolute right-0 top-0 h-full w-1.5 cursor-col-resize touch-none select-none',
+              'bg-transparent hover:bg-primary/40 focus:bg-primary/60 focus:outline-none transition-colors-smooth'
+            )}
+          />
+        )}
+      </th>
+    );
+  };
+
+  // Virtualized bodies render only the visible window between two spacer rows
+  const renderRows = () => {
+    if (!virtualized) {
+      return displayRows.map((displayRow, displayIndex) => renderRow(displayRow, displayIndex));
+    }
+
+    const virtualRows = rowVirtualizer.getVirtualItems();
+    const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+    const paddingBottom =
+      virtualRows.length > 0 ? rowVirtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0;
+
+    return (
+      <>
+        {paddingTop > 0 && (
+          <tr aria-hidden="true">
+            <td colSpan={colSpan} style={{ height: paddingTop, padding: 0 }} />
+          </tr>
+        )}
+        {virtualRows.map(virtualRow => renderRow(displayRows[virtualRow.index], virtualRow.index))}
+        {paddingBottom > 0 && (
+          <tr aria-hidden="true">
+            <td colSpan={colSpan} style={{ height: paddingBottom, padding: 0 }} />
+          </tr>
+        )}
+      </>
+    );
+  };
+
+  // Placeholder rows in the shape of the table, so headers stay put while the first data loads
+  const renderSkeletonRows = () => {
+    const widths = ['w-3/4', 'w-1/2', 'w-2/3', 'w-5/6'];
+    return Array.from({ length: loadingRows ?? pageSize ?? 5 }, (_, rowIndex) => {
+      const background: StickyBackground = rowIndex % 2 === 0 ? 'even' : 'odd';
+      const stickyCell = (key: string) => {
+        const sticky = getStickyCellProps(key, background);
+        return { className: cn('px-6 py-4', sticky.className), style: sticky.style };
+      };
+
+      return (
+        <tr key={`skeleton-${rowIndex}`} aria-hidden="true" className={rowIndex % 2 === 0 ? 'bg-muted/20' : 'bg-background'}>
+          {selectable && (
+            <td {...stickyCell(SELECT_STICKY_KEY)}>
+              <Skeleton className="h-4 w-4 rounded-sm" />
+            </td>
+          )}
+          {visibleColumns.map((column, columnIndex) => (
+            <td key={String(column.key)} {...stickyCell(String(column.key))}>
+              <Skeleton
+                className={cn(
+                  'h-4',
+                  widths[(rowIndex + columnIndex) % widths.length],
+                  column.align === 'center' && 'mx-auto',
+                  column.align === 'right' && 'ml-auto'
+                )}
+              />
+            </td>
+          ))}
+          {rowActions && <td {...getStickyCellProps(ACTIONS_STICKY_KEY, background)} />}
+        </tr>
+      );
+    });
+  };
+
+  const renderMessage = (
+    icon: React.ReactNode,
+    title: React.ReactNode,
+    description: React.ReactNode,
+    action?: React.ReactNode
+  ) => (
+    <div className="flex flex-col items-center space-y-4">
+      {icon}
+      <div className="space-y-2">
+        <h3 className="text-lg font-medium text-foreground">{title}</h3>
+        <p className="text-sm text-muted-foreground max-w-sm">{description}</p>
+      </div>
+      {action}
+    </div>
+  );
+
+  // Error or empty state shown in place of the rows, in either layout
+  const renderStateMessage = () => {
+    if (error) {
+      const message = typeof error === 'string' ? error : error.message;
+      return renderMessage(
+        <div className="w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center">
+          <AlertCircle className="h-8 w-8 text-destructive" />
+        </div>,
+        'Failed to load data',
+        <span role="alert">{message || 'Something went wrong. Please try again.'}</span>,
+        onRetry && (
+          <Button variant="outline" size="sm" onClick={onRetry}>
+            <RotateCw />
+            Try again
+          </Button>
+        )
+      );
+    }
+    if (sortedData.length === 0) {
+      return renderMessage(
+        <div className="w-16 h-16 rounded-full bg-muted/50 flex items-center justify-center">
+          {emptyIcon || <FileText className="h-8 w-8 text-muted-foreground/60" />}
+        </div>,
+        emptyMessage,
+        emptyDescription
+      );
+    }
+    return null;
+  };
+
+  const showSkeleton = loading && data.length === 0;
+  const stateMessage = showSkeleton ? null : renderStateMessage();
+
+  const renderBody = () => {
+    if (showSkeleton) {
+      return renderSkeletonRows();
+    }
+    if (stateMessage) {
+      return (
+        <tr>
+          <td colSpan={colSpan} className="px-6 py-16 text-center">
+            {stateMessage}
+          </td>
+        </tr>
+      );
+    }
+    return renderRows();
+  };
+
+  // Cards have no headers, so sorting by one column and select all move into a bar above them
+  const sortableColumns = columns.filter(column => column.sortable);
+  const primarySort = sortStack.find(sort => sort.direction);
+
+  const changeSort = (key: keyof T, direction: SortDirection) => {
+    resetPage();
+    setSortStack(direction ? [{ key, direction }] : []);
+  };
+
+  const renderCardList = () => (
+    <div ref={scrollContainerRef} aria-busy={loading || undefined}>
+      {(sortableColumns.length > 0 || (selectable && isMultiSelect)) && (
+        <div className="flex items-center justify-between gap-3 border-b border-border bg-muted/30 px-4 py-3">
+          {selectable && isMultiSelect ? (
+            <label className="flex items-center gap-2 text-sm font-medium text-foreground">
+              <Checkbox
+                checked={isAllSelected || isPartiallySelected}
+                onCheckedChange={handleSelectAll}
+                disabled={selectablePageKeys.length === 0}
+                className={cn(
+                  "transition-colors-smooth",
+                  isPartiallySelected && "data-[state=checked]:bg-muted-foreground"
+                )}
+              />
+              {pageSize ? 'Select page' : 'Select all'}
+            </label>
+          ) : (
+            <span />
+          )}
+          {sortableColumns.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Select
+                value={primarySort ? String(primarySort.key) : 'none'}
+                onValueChange={value => {
+                  const column = sortableColumns.find(col => String(col.key) === value);
+                  changeSort(column?.key, column ? primarySort?.direction ?? 'asc' : null);
+                }}
+              >
+                <SelectTrigger className="h-8 w-[150px]" aria-label="Sort by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unsorted</SelectItem>
+                  {sortableColumns.map(column => (
+                    <SelectItem key={String(column.key)} value={String(column.key)}>
+                      {column.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                disabled={!primarySort}
+                onClick={() => changeSort(primarySort.key, primarySort.direction === 'asc' ? 'desc' : 'asc')}
+                aria-label={primarySort?.direction === 'desc' ? 'Sort ascending' : 'Sort descending'}
+              >
+                {primarySort?.direction === 'desc' ? <ChevronDown /> : <ChevronUp />}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+      {showSkeleton && (
+        <ul className="space-y-3 p-4" aria-hidden="true">
+          {Array.from({ length: loadingRows ?? pageSize ?? 5 }, (_, index) => (
+            <li key={index}>
+              <Card className="space-y-3 p-4">
+                <Skeleton className="h-4 w-1/2" />
+                <Skeleton className="h-3 w-3/4" />
+                <Skeleton className="h-3 w-2/3" />
+              </Card>
+            </li>
+          ))}
+        </ul>
+      )}
+      {stateMessage && <div className="px-6 py-16 text-center">{stateMessage}</div>}
+      {!showSkeleton && !stateMessage && (
+        <ul className="space-y-3 p-4" aria-label={`${rowCount} rows`}>
+          {displayRows.map(renderCard)}
+          {showAggregateFooter && (
+            <li>
+              <dl className="space-y-2 rounded-lg border-2 border-border bg-muted/30 p-4 text-sm">
+                {visibleColumns
+                  .filter(column => column.aggregate)
+                  .map(column => (
+                    <div key={String(column.key)} className="flex justify-between gap-4">
+                      <dt className="text-muted-foreground">Total {column.title}</dt>
+                      <dd className="font-semibold text-foreground">
+                        {renderAggregateValue(column, footerAggregates.values.get(column.key), footerAggregates.rows)}
+                      </dd>
+                    </div>
+                  ))}
+              </dl>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+
+  const isRefreshing = loading && data.length > 0;
+  const selectHeaderSticky = getStickyCellProps(SELECT_STICKY_KEY, 'header');
+  const actionsHeaderSticky = getStickyCellProps(ACTIONS_STICKY_KEY, 'header');
+  const ariaRowCount = rowCount + displayRows.length - pageData.length + (showAggregateFooter ? 2 : 1);
+
+  return (
+    <div className={cn('rounded-xl border border-border bg-card shadow-elegant overflow-hidden', className)}>
+      {showToolbar && (
+        <DataTableToolbar
+          data={data}
+          columns={columns}
+          filters={filters}
+          onFiltersChange={handleFiltersChange}
+          searchable={searchable}
+          searchPlaceholder={searchPlaceholder}
+          manual={manual}
+          globalFilter={globalFilter}
+          onGlobalFilterChange={handleGlobalFilterChange}
+        >
+          {views && (
+            <DataTableViewsMenu
+              views={savedViews.views}
+              activeView={activeView}
+              defaultViewId={savedViews.defaultViewId}
+              modified={!!activeView && !isSameViewState(activeView.state, currentViewState)}
+              onApply={applyView}
+              onSave={name => saveView(name, currentViewState)}
+              onUpdate={view => savedViews.updateView(view.id, { state: currentViewState })}
+              onRename={(view, name) => savedViews.updateView(view.id, { name })}
+              onDelete={view => {
+                savedViews.deleteView(view.id);
+                if (view.id === activeViewId) setActiveViewId(null);
+              }}
+              onSetDefault={view => savedViews.setDefaultView(view?.id ?? null)}
+              onImport={view => applyView(saveView(view.name, view.state))}
+            />
+          )}
+          {exportable && (
+            <DataTableExportMenu
+              formats={exportConfig.formats ?? ['csv', 'tsv', 'json', 'excel']}
+              selectedCount={selectedKeys.length}
+              onExport={(format, rows) => exportData({ format, rows })}
+            />
+          )}
+          {controls.chooser && (
+            <DataTableColumnChooser
+              columns={columns.map(column => ({
+                key: String(column.key),
+                title: column.title,
+                visible: visibleColumns.includes(column),
+                hideable: column.hideable !== false,
+              }))}
+              onVisibilityChange={(key, visible) =>
+                setColumnLayout(layout => setColumnHidden(layout, key, !visible))
+              }
+              onReset={() => setColumnLayout(EMPTY_COLUMN_LAYOUT)}
+            />
+          )}
+        </DataTableToolbar>
+      )}
+      {showSelectAllBanner && (
+        <div className="px-6 py-2 bg-primary-light/60 border-b border-primary/20 text-center text-sm" role="status">
+          {isEveryMatchingRowSelected ? (
+            <>
+              All {matchingSelectableCount} matching rows are selected.{' '}
+              <button
+                onClick={() => updateSelection([])}
+                className="font-medium text-primary hover:text-primary-hover transition-colors-smooth underline"
+              >
+                Clear selection
+              </button>
+            </>
+          ) : (
+            <>
+              All {selectablePageKeys.length} rows on this page are selected.{' '}
+              <button
+                onClick={selectAllMatching}
+                className="font-medium text-primary hover:text-primary-hover transition-colors-smooth underline"
+              >
+                Select all {matchingSelectableCount} matching rows
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      <div className="relative">
+        {showCards ? (
+          renderCardList()
+        ) : (
+          <ScrollArea
+            viewportRef={scrollContainerRef}
+            // `max-h-[inherit]` lets the viewport scroll once the root reaches `maxHeight`
+            viewportClassName={cn(maxHeight != null && 'max-h-[inherit]')}
+            scrollbars="both"
+            style={virtualized ? { height: virtualOptions.height ?? 600 } : { maxHeight }}
+          >
+            <table
+              ref={tableRef}
+              role="grid"
+              // Header and footer rows plus every row, including those on other pages or outside the virtual window
+              aria-rowcount={ariaRowCount}
+              aria-colcount={colSpan}
+              aria-multiselectable={selectable || cellSelection || undefined}
+              aria-busy={loading || undefined}
+              onKeyDown={handleGridKeyDown}
+              className={cn('w-full', hasResizedColumns && 'table-fixed')}
+            >
+              <thead className={cn(isHeaderSticky && 'sticky top-0 z-10 bg-card')}>
+                <tr aria-rowindex={1} className="border-b border-border bg-muted/30">
+                  {selectable && (
+                    <th
+                      {...getGridCellProps(-1, 0)}
+                      data-sticky-key={SELECT_STICKY_KEY}
+                      className={cn(
+                        'w-12 px-6 py-4 text-left',
+                        gridCellFocusClass,
+                        selectHeaderSticky.className
+                      )}
+                      style={selectHeaderSticky.style}
+                    >
+                      {isMultiSelect ? (
                         <Checkbox
-                          checked={isSelected}
-                          onCheckedChange={(checked) => 
-                            handleRowSelection(key, checked as boolean)
-                          }
-                          aria-label={`Select row ${index + 1}`}
-                          className="transition-colors-smooth"
+                          checked={isAllSelected || isPartiallySelected}
+                          onCheckedChange={handleSelectAll}
+                          disabled={selectablePageKeys.length === 0}
+                          tabIndex={-1}
+                          aria-label={pageSize ? 'Select all rows on this page' : 'Select all rows'}
+                          className={cn(
+                            "transition-colors-smooth",
+                            isPartiallySelected && "data-[state=checked]:bg-muted-foreground"
+                          )}
                         />
-                      </td>
-                    )}
-                    {columns.map((column) => (
+                      ) : (
+                        <span className="sr-only">Select</span>
+                      )}
+                    </th>
+                  )}
+                  {visibleColumns.map(renderHeaderCell)}
+                  {rowActions && (
+                    <th
+                      {...getGridCellProps(-1, colSpan - 1)}
+                      data-sticky-key={ACTIONS_STICKY_KEY}
+                      className={cn(
+                        'w-14 px-2 py-4',
+                        gridCellFocusClass,
+                        actionsHeaderSticky.className
+                      )}
+                      style={actionsHeaderSticky.style}
+                    >
+                      <span className="sr-only">Actions</span>
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border/50">
+                {renderBody()}
+              </tbody>
+              {showAggregateFooter && (
+                <tfoot
+                  className={cn('border-t-2 border-border bg-muted/30', scrollsVertically && 'sticky bottom-0 z-10 bg-card')}
+                >
+                  <tr aria-rowindex={ariaRowCount}>
+                    {selectable && (
                       <td
-                        key={String(column.key)}
-                        className={cn(
-                          'px-6 py-4 text-sm text-foreground',
-                          'first:pl-6 last:pr-6',
-                          column.align === 'center' && 'text-center',
-                          column.align === 'right' && 'text-right'
-                        )}
-                      >
-                        {renderCellContent(column, row, index)}
-                      </td>
-                    ))}
+                        className={cn('px-6 py-4', selectHeaderSticky.className)}
+                        style={selectHeaderSticky.style}
+                      />
+                    )}
+                    {visibleColumns.map((column, columnIndex) => {
+                      const sticky = getStickyCellProps(String(column.key), 'header');
+                      return (
+                        <td
+                          key={String(column.key)}
+                          className={cn(
+                            'px-6 py-4 text-sm font-semibold text-foreground',
+                            column.align === 'center' && 'text-center',
+                            column.align === 'right' && 'text-right',
+                            sticky.className
+                          )}
+                          style={sticky.style}
+                        >
+                          {column.aggregate
+                            ? renderAggregateValue(column, footerAggregates.values.get(column.key), footerAggregates.rows)
+                            : columnIndex === 0 && 'Total'}
+                        </td>
+                      );
+                    })}
+                    {rowActions && <td {...actionsHeaderSticky} />}
                   </tr>
-                );
-              })
+                </tfoot>
+              )}
+            </table>
+          </ScrollArea>
+        )}
+        {!showCards && (
+          // Shadows on each edge with content scrolled out of view, inside the sticky header, footer and pinned columns
+          <div className="pointer-events-none absolute inset-0 overflow-hidden" aria-hidden="true">
+            {scrollOverflow.top && (
+              <div
+                className="absolute inset-x-0 h-2 bg-gradient-to-b from-foreground/10 to-transparent"
+                style={{ top: isHeaderSticky ? headerHeight : 0 }}
+              />
+            )}
+            {scrollOverflow.bottom && (
+              <div
+                className="absolute inset-x-0 h-2 bg-gradient-to-t from-foreground/10 to-transparent"
+                style={{ bottom: showAggregateFooter && scrollsVertically ? footerHeight : 0 }}
+              />
             )}
-          </tbody>
-        </table>
+            {scrollOverflow.left && (
+              <div
+                className="absolute inset-y-0 w-2 bg-gradient-to-r from-foreground/10 to-transparent"
+                style={{ left: stickyOffsets.left }}
+              />
+            )}
+            {scrollOverflow.right && (
+              <div
+                className="absolute inset-y-0 w-2 bg-gradient-to-l from-foreground/10 to-transparent"
+                style={{ right: stickyOffsets.right }}
+              />
+            )}
+          </div>
+        )}
+        {isRefreshing && (
+          <div className="pointer-events-none absolute inset-0 bg-background/40">
+            <div
+              className="absolute right-4 top-3 flex items-center gap-2 rounded-full border border-border bg-card px-3 py-1 text-xs text-muted-foreground shadow-sm"
+              role="status"
+            >
+              <Loader2 className="h-3.5 w-3.5 animate-spin text-primary" />
+              Refreshing…
+            </div>
+          </div>
+        )}
       </div>
+
+      {pageSize && rowCount > 0 && (
+        <DataTablePagination
+          {...paginationOptions}
+          pageIndex={currentPage}
+          pageCount={pageCount}
+          pageSize={pageSize}
+          rowCount={rowCount}
+          onPageChange={changePage}
+          onPageSizeChange={changePageSize}
+        />
+      )}
       
-      {selectedRows.size > 0 && (
+      {selectedCount > 0 && (
         <div className="px-6 py-4 bg-primary-light/80 border-t border-primary/20 backdrop-blur-sm">
-          <div className="flex items-center justify-between">
+          <div className="flex flex-wrap items-center justify-between gap-3">
             <div className="flex items-center space-x-2">
               <div className="w-2 h-2 rounded-full bg-primary animate-pulse" />
               <span className="text-sm font-medium text-primary">
-                {selectedRows.size} row{selectedRows.size !== 1 ? 's' : ''} selected
+                {selectedCount} row{selectedCount !== 1 ? 's' : ''} selected
               </span>
+              <button 
+                onClick={() => {
+                  updateSelection([]);
+                }}
+                className="text-xs text-primary hover:text-primary-hover transition-colors-smooth underline"
+              >
+                Clear selection
+              </button>
             </div>
-            <button 
-              onClick={() => {
-                setSelectedRows(new Set());
-                onRowSelect?.([]);
-              }}
-              className="text-xs text-primary hover:text-primary-hover transition-colors-smooth underline"
-            >
-              Clear selection
-            </button>
+            {bulkActions?.length > 0 && (
+              <DataTableBulkActions
+                actions={bulkActions}
+                rows={getSelectedEntries()}
+                allMatchingSelected={allMatchingSelected}
+                getRowLabel={getRowDisplayLabel}
+                onComplete={remainingKeys => {
+                  if (remainingKeys) updateSelection(remainingKeys);
+                }}
+              />
+            )}
           </div>
         </div>
       )}
@@ -318,4 +3222,9 @@ function DataTable<T extends Record<string, any>>({
   );
 }
 
+// forwardRef drops the generic parameter, so restore it for callers
+const DataTable = forwardRef(DataTableInner) as <T extends object>(
+  props: DataTableProps<T> & { ref?: React.Ref<DataTableHandle> }
+) => ReturnType<typeof DataTableInner>;
+
 export { DataTable };
\ No newline at end of file
@@ -0,0 +1,128 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useState } from 'react';
+import { AtSign } from 'lucide-react';
+import {
+  FormCheckboxField,
+  FormInputField,
+  FormSelectField,
+  FormTextareaField,
+} from './FormInputField';
+import { Form } from './form';
+import { Button } from './button';
+
+const meta: Meta<typeof FormInputField> = {
+  title: 'Components/FormInputField',
+  component: FormInputField,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component: `
+# FormInputField Components
+
+InputField, textarea, select and checkbox fields registered with react-hook-form through \`FormField\`.
+
+## Features
+
+- **Registration**: pass \`name\` inside a \`<Form>\` provider instead of wiring \`FormField\` by hand
+- **Validation**: \`rules\` or a resolver such as zod; errors show as the field's error message
+- **Async Validation**: the loading spinner shows while async rules run
+- **Accessibility**: the label, helper text and error message use the ids \`FormItem\` generates
+- **Variants**: \`FormInputField\`, \`FormTextareaField\`, \`FormSelectField\`, \`FormCheckboxField\`
+
+## Values
+
+\`FormInputField\` stores the text as shown, or a number (null when empty) with \`type="number"\`.
+\`FormSelectField\` stores the option's value and \`FormCheckboxField\` a boolean. Every other
+InputField prop, such as \`mask\`, \`clearable\` or adornments, is passed through.
+        `,
+      },
+    },
+  },
+  tags: ['autodocs'],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+const takenUsernames = ['admin', 'john', 'jane'];
+
+// Stands in for a request to the server
+const isUsernameAvailable = (username: string) =>
+  new Promise<boolean>(resolve => setTimeout(() => resolve(!takenUsernames.includes(username.toLowerCase())), 800));
+
+const signupSchema = z.object({
+  username: z
+    .string()
+    .min(3, 'Username must be at least 3 characters')
+    .refine(isUsernameAvailable, 'This username is taken'),
+  email: z.string().email('Enter a valid email address'),
+  // An emptied number field is null
+  age: z
+    .number({ required_error: 'Age is required', invalid_type_error: 'Age is required' })
+    .int()
+    .min(18, 'You must be 18 or older'),
+  role: z.string().min(1, 'Choose a role'),
+  bio: z.string().max(160, 'Keep it under 160 characters'),
+  terms: z.boolean().refine(accepted => accepted, 'You must accept the terms'),
+});
+
+type SignupValues = z.infer<typeof signupSchema>;
+
+// Signup form
+const SignupForm = () => {
+  const [submitted, setSubmitted] = useState<SignupValues | null>(null);
+  const form = useForm<SignupValues>({
+    resolver: zodResolver(signupSchema),
+    mode: 'onTouched',
+    defaultValues: { username: '', email: '', role: '', bio: '', terms: false },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(setSubmitted)} className="space-y-4 w-96">
+        <FormInputField
+          name="username"
+          label="Username"
+          placeholder="Try admin or john"
+          startAdornment={<AtSign />}
+          helperText="Checked against existing accounts"
+        />
+        <FormInputField name="email" type="email" label="Email" placeholder="you@example.com" clearable />
+        <FormInputField name="age" type="number" label="Age" min={0} max={120} placeholder="18" />
+        <FormSelectField
+          name="role"
+          label="Role"
+          placeholder="Select a role"
+          options={[
+            { value: 'developer', label: 'Developer' },
+            { value: 'designer', label: 'Designer' },
+            { value: 'manager', label: 'Manager' },
+          ]}
+        />
+        <FormTextareaField name="bio" label="Bio" placeholder="Tell us about yourself" helperText="Optional" />
+        <FormCheckboxField name="terms" label="I accept the terms and conditions" />
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          Create account
+        </Button>
+        {submitted && (
+          <pre className="rounded-md bg-muted p-3 text-xs">{JSON.stringify(submitted, null, 2)}</pre>
+        )}
+      </form>
+    </Form>
+  );
+};
+
+export const SignupExample: Story = {
+  render: () => <SignupForm />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'A zod-validated signup form. The username also runs an async availability check, showing the spinner while it is pending.',
+      },
+    },
+  },
+};
@@ -0,0 +1,354 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import type {
+  ControllerFieldState,
+  ControllerProps,
+  ControllerRenderProps,
+  FieldPath,
+  FieldValues,
+} from 'react-hook-form';
+import { cn } from '@/lib/utils';
+import { InputField, type InputFieldProps } from '@/components/ui/InputField';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea, type TextareaProps } from '@/components/ui/textarea';
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  useFormField,
+} from '@/components/ui/form';
+
+/**
+ * What every form field takes to register with react-hook-form: `name`, plus optional
+ * `rules`, `defaultValue`, `shouldUnregister` and `disabled`. Fields read the form state
+ * from the `<Form>` provider, so they must be rendered inside one.
+ */
+type FormFieldBaseProps<
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+> = Omit<ControllerProps<TFieldValues, TName>, 'render'>;
+
+type FieldRenderProps = {
+  field: ControllerRenderProps<FieldValues, string>;
+  fieldState: ControllerFieldState;
+};
+
+// Shown next to the label while an async rule runs
+const ValidatingIndicator = () => (
+  <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" aria-label="Validating" />
+);
+
+type FormInputFieldControlProps = FieldRenderProps &
+  Omit<InputFieldProps, 'name' | 'value' | 'defaultValue' | 'disabled' | 'errorMessage' | 'invalid'>;
+
+// Rendered inside FormItem so useFormField can hand out the item's ids
+const FormInputFieldControl = ({
+  field,
+  fieldState,
+  type,
+  loading,
+  onChange,
+  onValueChange,
+  onBlur,
+  ...props
+}: FormInputFieldControlProps) => {
+  const { formItemId, formDescriptionId, formMessageId } = useFormField();
+  const isNumeric = type === 'number';
+
+  return (
+    <InputField
+      {...props}
+      type={type}
+      id={formItemId}
+      helperTextId={formDescriptionId}
+      errorMessageId={formMessageId}
+      ref={field.ref}
+      name={field.name}
+      disabled={field.disabled}
+      value={field.value ?? ''}
+      // Numeric mode stores numbers (or null), everything else the text as shown
+      onChange={(e) => {
+        if (!isNumeric) field.onChange(e.target.value);
+        onChange?.(e);
+      }}
+      onValueChange={(value) => {
+        field.onChange(value);
+        onValueChange?.(value);
+      }}
+      onBlur={(e) => {
+        field.onBlur();
+        onBlur?.(e);
+      }}
+      invalid={fieldState.invalid}
+      errorMessage={fieldState.error?.message}
+      loading={loading || fieldState.isValidating}
+    />
+  );
+};
+
+export type FormInputFieldProps<
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+> = FormFieldBaseProps<TFieldValues, TName> &
+  Omit<InputFieldProps, 'name' | 'value' | 'defaultValue' | 'disabled' | 'errorMessage' | 'invalid'>;
+
+/**
+ * InputField registered with react-hook-form. Errors come from the field's rules or
+ * resolver, the spinner shows while async rules run and the label, error message and
+ * helper text use the ids `FormItem` generates. In numeric mode the form value is a
+ * number, or null when the field is empty.
+ */
+const FormInputField = <
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+>({
+  control,
+  name,
+  rules,
+  defaultValue,
+  shouldUnregister,
+  disabled,
+  containerClassName,
+  ...props
+}: FormInputFieldProps<TFieldValues, TName>) => (
+  <FormField
+    control={control}
+    name={name}
+    rules={rules}
+    defaultValue={defaultValue}
+    shouldUnregister={shouldUnregister}
+    disabled={disabled}
+    render={({ field, fieldState }) => (
+      <FormItem className={containerClassName}>
+        <FormInputFieldControl field={field as FieldRenderProps['field']} fieldState={fieldState} {...props} />
+      </FormItem>
+    )}
+  />
+);
+
+interface FormFieldTextProps {
+  label?: string;
+  helperText?: string;
+  containerClassName?: string;
+}
+
+// Label, helper text and message shared by the textarea and select fields
+const FormFieldLayout = ({
+  label,
+  helperText,
+  validating,
+  children,
+}: Omit<FormFieldTextProps, 'containerClassName'> & { validating: boolean; children: React.ReactNode }) => (
+  <>
+    {label && (
+      <div className="flex items-center gap-2">
+        <FormLabel>{label}</FormLabel>
+        {validating && <ValidatingIndicator />}
+      </div>
+    )}
+    {children}
+    {helperText && <FormDescription>{helperText}</FormDescription>}
+    <FormMessage />
+  </>
+);
+
+export type FormTextareaFieldProps<
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+> = FormFieldBaseProps<TFieldValues, TName> &
+  FormFieldTextProps &
+  Omit<TextareaProps, 'name' | 'value' | 'defaultValue' | 'disabled'>;
+
+/** Textarea registered with react-hook-form, laid out like the other form fields */
+const FormTextareaField = <
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+>({
+  control,
+  name,
+  rules,
+  defaultValue,
+  shouldUnregister,
+  disabled,
+  label,
+  helperText,
+  containerClassName,
+  className,
+  onChange,
+  onBlur,
+  ...props
+}: FormTextareaFieldProps<TFieldValues, TName>) => (
+  <FormField
+    control={control}
+    name={name}
+    rules={rules}
+    defaultValue={defaultValue}
+    shouldUnregister={shouldUnregister}
+    disabled={disabled}
+    render={({ field, fieldState }) => (
+      <FormItem className={containerClassName}>
+        <FormFieldLayout label={label} helperText={helperText} validating={fieldState.isValidating}>
+          <FormControl>
+            <Textarea
+              {...props}
+              ref={field.ref}
+              name={field.name}
+              disabled={field.disabled}
+              value={field.value ?? ''}
+              onChange={(e) => {
+                field.onChange(e.target.value);
+                onChange?.(e);
+              }}
+              onBlur={(e) => {
+                field.onBlur();
+                onBlur?.(e);
+              }}
+              aria-busy={fieldState.isValidating || undefined}
+              className={cn(fieldState.invalid && 'border-destructive focus-visible:ring-destructive', className)}
+            />
+          </FormControl>
+        </FormFieldLayout>
+      </FormItem>
+    )}
+  />
+);
+
+export interface FormSelectOption {
+  value: string;
+  label: string;
+  disabled?: boolean;
+}
+
+export type FormSelectFieldProps<
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+> = FormFieldBaseProps<TFieldValues, TName> &
+  FormFieldTextProps & {
+    options: FormSelectOption[];
+    placeholder?: string;
+    className?: string;
+  };
+
+/** Select registered with react-hook-form. The field counts as touched when the menu closes. */
+const FormSelectField = <
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+>({
+  control,
+  name,
+  rules,
+  defaultValue,
+  shouldUnregister,
+  disabled,
+  label,
+  helperText,
+  containerClassName,
+  options,
+  placeholder,
+  className,
+}: FormSelectFieldProps<TFieldValues, TName>) => (
+  <FormField
+    control={control}
+    name={name}
+    rules={rules}
+    defaultValue={defaultValue}
+    shouldUnregister={shouldUnregister}
+    disabled={disabled}
+    render={({ field, fieldState }) => (
+      <FormItem className={containerClassName}>
+        <FormFieldLayout label={label} helperText={helperText} validating={fieldState.isValidating}>
+          <Select
+            name={field.name}
+            disabled={field.disabled}
+            value={field.value ?? ''}
+            onValueChange={field.onChange}
+            onOpenChange={(open) => !open && field.onBlur()}
+          >
+            <FormControl>
+              <SelectTrigger
+                ref={field.ref}
+                aria-busy={fieldState.isValidating || undefined}
+                className={cn(fieldState.invalid && 'border-destructive focus:ring-destructive', className)}
+              >
+                <SelectValue placeholder={placeholder} />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option.value} value={option.value} disabled={option.disabled}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </FormFieldLayout>
+      </FormItem>
+    )}
+  />
+);
+
+export type FormCheckboxFieldProps<
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+> = FormFieldBaseProps<TFieldValues, TName> &
+  FormFieldTextProps & {
+    className?: string;
+  };
+
+/** Checkbox registered with react-hook-form, with its label alongside. The value is a boolean. */
+const FormCheckboxField = <
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+>({
+  control,
+  name,
+  rules,
+  defaultValue,
+  shouldUnregister,
+  disabled,
+  label,
+  helperText,
+  containerClassName,
+  className,
+}: FormCheckboxFieldProps<TFieldValues, TName>) => (
+  <FormField
+    control={control}
+    name={name}
+    rules={rules}
+    defaultValue={defaultValue}
+    shouldUnregister={shouldUnregister}
+    disabled={disabled}
+    render={({ field, fieldState }) => (
+      <FormItem className={cn('flex flex-row items-start gap-3 space-y-0', containerClassName)}>
+        <FormControl>
+          <Checkbox
+            ref={field.ref}
+            name={field.name}
+            disabled={field.disabled}
+            checked={!!field.value}
+            onCheckedChange={(checked) => field.onChange(checked === true)}
+            onBlur={field.onBlur}
+            aria-busy={fieldState.isValidating || undefined}
+            className={cn('mt-0.5', fieldState.invalid && 'border-destructive', className)}
+          />
+        </FormControl>
+        <div className="space-y-1 leading-none">
+          {label && (
+            <div className="flex items-center gap-2">
+              <FormLabel className="cursor-pointer">{label}</FormLabel>
+              {fieldState.isValidating && <ValidatingIndicator />}
+            </div>
+          )}
+          {helperText && <FormDescription>{helperText}</FormDescription>}
+          <FormMessage />
+        </div>
+      </FormItem>
+    )}
+  />
+);
+
+export { FormInputField, FormTextareaField, FormSelectField, FormCheckboxField };
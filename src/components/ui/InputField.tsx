@@ -1,7 +1,32 @@
-import React, { forwardRef, useState } from 'react';
+import React, { forwardRef, useEffect, useId, useImperativeHandle, useLayoutEffect, useRef, useState } from 'react';
 import { cva, type VariantProps } from 'class-variance-authority';
 import { cn } from '@/lib/utils';
-import { Eye, EyeOff, X, Loader2 } from 'lucide-react';
+import { CheckCircle2, ChevronDown, ChevronUp, Eye, EyeOff, X, Loader2 } from 'lucide-react';
+import {
+  applyMask,
+  getMaskedCaret,
+  getMaskInputMode,
+  type InputMask,
+  type MaskedValue,
+} from '@/components/ui/input-field-mask';
+import {
+  clampNumber,
+  countDecimals,
+  formatNumberDisplay,
+  formatNumberInput,
+  getNumberScale,
+  parseNumberInput,
+  roundNumber,
+  roundToFormat,
+  toNumberValue,
+  type NumberInputFormat,
+} from '@/components/ui/input-field-number';
+import type {
+  InputValidate,
+  InputValidationState,
+  InputValidationTrigger,
+} from '@/components/ui/input-field-validation';
+import { useInputValidation } from '@/hooks/use-input-validation';
 
 const inputVariants = cva(
   'flex w-full rounded-lg text-foreground transition-colors-smooth focus-ring disabled:disabled-style placeholder:text-muted-foreground',
@@ -39,6 +64,7 @@ const inputVariants = cva(
           'bg-destructive/5'
         ],
         loading: 'pr-10',
+        success: 'border-success focus:border-success focus:ring-success/20',
       },
     },
     defaultVariants: {
@@ -57,6 +83,7 @@ const labelVariants = cva(
         default: 'text-foreground',
         invalid: 'text-destructive',
         loading: 'text-muted-foreground',
+        success: 'text-foreground',
       },
     },
     defaultVariants: {
@@ -65,12 +92,21 @@ const labelVariants = cva(
   }
 );
 
+// Space between an adornment area and the text
+const ADORNMENT_GAP = 8;
+
+// Clicks on adornment text focus the input, like clicks on its padding would
+const ADORNMENT_CONTROL_SELECTOR = 'button, a[href], input, select, textarea, [role="combobox"]';
+
+const adornmentClass = 'flex items-center gap-2 text-sm text-muted-foreground [&_svg]:h-4 [&_svg]:w-4';
+
 const helperTextVariants = cva('text-xs mt-2 transition-colors-smooth', {
   variants: {
     state: {
       default: 'text-muted-foreground',
       invalid: 'text-destructive',
       loading: 'text-muted-foreground',
+      success: 'text-success',
     },
   },
   defaultVariants: {
@@ -78,17 +114,63 @@ const helperTextVariants = cva('text-xs mt-2 transition-colors-smooth', {
   },
 });
 
+/**
+ * `type="number"` switches to a numeric mode: the value is formatted with `locale` and
+ * `formatOptions` while the field is blurred, typed input is read for the locale, and
+ * `min`/`max`/`step` drive the stepper buttons, arrow keys (Shift for ten steps) and
+ * the mouse wheel while focused. Values are clamped and rounded when the field blurs.
+ */
 export interface InputFieldProps
   extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'size'>,
-    VariantProps<typeof inputVariants> {
+    VariantProps<typeof inputVariants>,
+    NumberInputFormat {
   label?: string;
   helperText?: string;
   errorMessage?: string;
   invalid?: boolean;
   loading?: boolean;
+  /** Shows the success state, e.g. after a check the field does not run itself. */
+  valid?: boolean;
+  /** Shown in place of the helper text while the field is in the success state. */
+  successMessage?: string;
   clearable?: boolean;
+  /** Called when the clear button empties the field, after `onChange` has received the empty text. */
   onClear?: () => void;
   containerClassName?: string;
+  /** Id of the helper text, referenced by `aria-describedby`. Defaults to one derived from the input's id. */
+  helperTextId?: string;
+  /** Id of the error message, referenced by `aria-describedby`. Defaults to one derived from the input's id. */
+  errorMessageId?: string;
+  /**
+   * Formats the value as it is typed, e.g. `(999) 999-9999`. `value` may be given masked
+   * or unmasked; `onChange` receives the masked text.
+   */
+  mask?: InputMask;
+  /** Called on every change of a masked input with both the masked and unmasked value. */
+  onMaskedValueChange?: (value: MaskedValue) => void;
+  /** Show increment and decrement buttons in numeric mode. Defaults to true. */
+  steppers?: boolean;
+  /** Called in numeric mode with the parsed value, or null when the field is empty. */
+  onValueChange?: (value: number | null) => void;
+  /**
+   * Content before the text: an icon, text such as `https://`, a button or a select.
+   * The input's padding follows its width.
+   */
+  startAdornment?: React.ReactNode;
+  /** Content after the text, left of the built-in clear, password, loading and stepper controls. */
+  endAdornment?: React.ReactNode;
+  /**
+   * Checks the value: a function returning an error message, sync or async, or a zod
+   * schema. Async checks show the loading state, and a passing value the success state.
+   * `errorMessage` still takes precedence over the validation error.
+   */
+  validate?: InputValidate;
+  /** When `validate` runs. Defaults to `debounced`. */
+  validateOn?: InputValidationTrigger;
+  /** Milliseconds after the last change before a debounced check runs. Defaults to 400. */
+  validateDebounce?: number;
+  /** Called whenever validation starts or settles. */
+  onValidationChange?: (state: InputValidationState) => void;
 }
 
 const InputField = forwardRef<HTMLInputElement, InputFieldProps>(
@@ -103,38 +185,266 @@ const InputField = forwardRef<HTMLInputElement, InputFieldProps>(
       errorMessage,
       invalid = false,
       loading = false,
+      valid = false,
+      successMessage,
       disabled = false,
       clearable = false,
       onClear,
+      helperTextId,
+      errorMessageId,
       type = 'text',
       value,
+      onChange,
+      mask,
+      onMaskedValueChange,
+      locale,
+      formatOptions,
+      precision,
+      min,
+      max,
+      step,
+      steppers = true,
+      onValueChange,
+      onKeyDown,
+      onFocus,
+      onBlur,
+      startAdornment,
+      endAdornment,
+      validate,
+      validateOn,
+      validateDebounce,
+      onValidationChange,
+      style,
       ...props
     },
     ref
   ) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    useImperativeHandle(ref, () => inputRef.current);
+
+    const validation = useInputValidation(validate, {
+      validateOn,
+      debounce: validateDebounce,
+      onValidationChange,
+    });
+    const validating = validation.status === 'validating';
+    const error = errorMessage || validation.error;
+    const isValid = !error && !invalid && (valid || validation.status === 'valid');
+
+    const generatedId = useId();
+    const inputId = props.id ?? generatedId;
+    const messageId = error ? errorMessageId ?? `${inputId}-error` : helperTextId ?? `${inputId}-helper`;
+    const message = error || (isValid && successMessage) || helperText;
+
     const [showPassword, setShowPassword] = useState(false);
     const [internalValue, setInternalValue] = useState(value || '');
+    // Numeric mode: the text being typed while focused, null while blurred
+    const [numberText, setNumberText] = useState<string | null>(null);
     
-    const currentValue = value !== undefined ? value : internalValue;
+    const isNumeric = type === 'number';
+    const numberFormat: NumberInputFormat = { locale, formatOptions, precision };
+    const rawValue = value !== undefined ? value : internalValue;
+    const numberValue = isNumeric ? toNumberValue(rawValue, numberFormat) : null;
+    const minValue = toNumberValue(min) ?? undefined;
+    const maxValue = toNumberValue(max) ?? undefined;
+    const stepValue = toNumberValue(step) ?? 1 / getNumberScale(numberFormat);
+
+    let currentValue = rawValue;
+    if (isNumeric) {
+      currentValue = numberText ?? formatNumberDisplay(numberValue, numberFormat);
+    } else if (mask && rawValue != null) {
+      currentValue = applyMask(String(rawValue), mask).masked;
+    }
     const isPassword = type === 'password';
     const hasValue = currentValue && currentValue.toString().length > 0;
     const showClearButton = clearable && hasValue && !disabled && !loading;
     const showPasswordToggle = isPassword && !disabled && !loading;
+    const showSteppers = isNumeric && steppers && !disabled && !loading && !props.readOnly;
+    // Validation keeps the other controls in place so they don't jump while typing
+    const busy = loading || validating;
+    const showSuccessIcon = isValid && !busy;
+    const hasEndControls = !!endAdornment || showClearButton || showPasswordToggle || busy || showSuccessIcon;
+
+    // Adornments and controls sit over the input, so its padding is set to their measured width
+    const startRef = useRef<HTMLDivElement>(null);
+    const endRef = useRef<HTMLDivElement>(null);
+    const [padding, setPadding] = useState<{ left?: number; right?: number }>({});
+    const hasStart = !!startAdornment;
+    const hasEnd = hasEndControls || showSteppers;
+
+    useLayoutEffect(() => {
+      const measure = () => {
+        const left = startRef.current ? startRef.current.offsetWidth + ADORNMENT_GAP : undefined;
+        const right = endRef.current ? endRef.current.offsetWidth + ADORNMENT_GAP : undefined;
+        setPadding(current => (current.left === left && current.right === right ? current : { left, right }));
+      };
+      measure();
+      const observer = new ResizeObserver(measure);
+      [startRef.current, endRef.current].forEach(element => element && observer.observe(element));
+      return () => observer.disconnect();
+    }, [hasStart, hasEnd]);
     
-    const inputState = invalid || errorMessage ? 'invalid' : loading ? 'loading' : 'default';
+    const inputState = invalid || error ? 'invalid' : busy ? 'loading' : isValid ? 'success' : 'default';
+
+    // Re-masks the edited text and puts the caret back after the same typed character
+    const applyInputMask = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const input = e.target;
+      const caret = input.selectionStart ?? input.value.length;
+      const previous = applyMask(String(currentValue ?? ''), mask);
+      let next = applyMask(input.value, mask);
+      let typedBeforeCaret = applyMask(input.value.slice(0, caret), mask).unmasked.length;
+
+      // Deleting only a literal would change nothing, so the typed character beside it goes instead
+      const inputType = (e.nativeEvent as InputEvent).inputType;
+      if (next.unmasked === previous.unmasked && inputType === 'deleteContentBackward' && typedBeforeCaret > 0) {
+        const { unmasked } = previous;
+        next = applyMask(unmasked.slice(0, typedBeforeCaret - 1) + unmasked.slice(typedBeforeCaret), mask);
+        typedBeforeCaret--;
+      } else if (next.unmasked === previous.unmasked && inputType === 'deleteContentForward') {
+        const { unmasked } = previous;
+        next = applyMask(unmasked.slice(0, typedBeforeCaret) + unmasked.slice(typedBeforeCaret + 1), mask);
+      }
+
+      input.value = next.masked;
+      const nextCaret = getMaskedCaret(next, typedBeforeCaret, mask);
+      input.setSelectionRange(nextCaret, nextCaret);
+      onMaskedValueChange?.(next);
+    };
+
+    const commitNumber = (next: number | null) => {
+      if (value === undefined) {
+        setInternalValue(next ?? '');
+      }
+      if (!Object.is(next, numberValue)) {
+        onValueChange?.(next);
+        validation.handleChange(next);
+      }
+    };
+
+    // Hands `onChange` an event for text that wasn't typed. The input shows that text while
+    // the handler runs, and the next render sets whatever value the field ends up with.
+    const emitTextChange = (text: string) => {
+      const input = inputRef.current;
+      if (!input || !onChange) return;
+      const previous = input.value;
+      input.value = text;
+      const nativeEvent = new Event('change');
+      onChange({
+        nativeEvent,
+        target: input,
+        currentTarget: input,
+        type: 'change',
+        bubbles: false,
+        cancelable: false,
+        defaultPrevented: false,
+        eventPhase: nativeEvent.eventPhase,
+        isTrusted: false,
+        timeStamp: nativeEvent.timeStamp,
+        preventDefault: () => {},
+        isDefaultPrevented: () => false,
+        stopPropagation: () => {},
+        isPropagationStopped: () => false,
+        persist: () => {},
+      } as React.ChangeEvent<HTMLInputElement>);
+      if (input.value === text) input.value = previous;
+    };
+
+    const stepNumber = (direction: 1 | -1, multiplier = 1) => {
+      const change = direction * stepValue * multiplier;
+      // Round away floating point noise such as 0.1 + 0.2
+      const decimals = Math.max(countDecimals(stepValue), countDecimals(numberValue ?? 0));
+      const next = clampNumber(
+        roundToFormat(roundNumber(numberValue === null ? change : numberValue + change, decimals), numberFormat),
+        minValue,
+        maxValue
+      );
+      const text = formatNumberInput(next, numberFormat);
+      // A blurred field keeps showing the formatted value
+      if (numberText !== null) setNumberText(text);
+      commitNumber(next);
+      // Stepped values reach `onChange` like typed ones, so callers that control the text stay in sync
+      emitTextChange(text);
+    };
+
+    // The wheel listener is added once, so it reads the latest stepping through a ref
+    const stepNumberRef = useRef(stepNumber);
+    stepNumberRef.current = stepNumber;
+
+    // React's wheel listeners are passive, so scrolling the page can only be stopped natively
+    useEffect(() => {
+      const input = inputRef.current;
+      if (!isNumeric || !input) return;
+      const handleWheel = (e: WheelEvent) => {
+        if (document.activeElement !== input || e.deltaY === 0) return;
+        e.preventDefault();
+        stepNumberRef.current(e.deltaY < 0 ? 1 : -1, e.shiftKey ? 10 : 1);
+      };
+      input.addEventListener('wheel', handleWheel, { passive: false });
+      return () => input.removeEventListener('wheel', handleWheel);
+    }, [isNumeric]);
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      onKeyDown?.(e);
+      if (!isNumeric || e.defaultPrevented || props.readOnly) return;
+      const steps = { ArrowUp: 1, ArrowDown: -1, PageUp: 10, PageDown: -10 }[e.key];
+      if (!steps) return;
+      e.preventDefault();
+      stepNumber(steps > 0 ? 1 : -1, Math.abs(steps) * (e.shiftKey ? 10 : 1));
+    };
+
+    const handleFocus = (e: React.FocusEvent<HTMLInputElement>) => {
+      if (isNumeric) setNumberText(formatNumberInput(numberValue, numberFormat));
+      onFocus?.(e);
+    };
+
+    // Out of range or over-precise values are corrected, and unreadable text is reverted
+    const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+      let blurredNumber = numberValue;
+      if (isNumeric && numberText !== null) {
+        const parsed = parseNumberInput(numberText, numberFormat);
+        if (parsed === null) {
+          blurredNumber = null;
+        } else if (!Number.isNaN(parsed)) {
+          blurredNumber = clampNumber(roundToFormat(parsed, numberFormat), minValue, maxValue);
+        }
+        const blurredText = formatNumberInput(blurredNumber, numberFormat);
+        commitNumber(blurredNumber);
+        if (parsed !== null && blurredText !== numberText) emitTextChange(blurredText);
+        setNumberText(null);
+      }
+      validation.handleBlur(isNumeric ? blurredNumber : String(currentValue ?? ''));
+      onBlur?.(e);
+    };
 
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      if (isNumeric) {
+        setNumberText(e.target.value);
+        const parsed = parseNumberInput(e.target.value, numberFormat);
+        if (!Number.isNaN(parsed)) commitNumber(parsed);
+        onChange?.(e);
+        return;
+      }
+      if (mask) applyInputMask(e);
       const newValue = e.target.value;
       if (value === undefined) {
         setInternalValue(newValue);
       }
-      props.onChange?.(e);
+      validation.handleChange(newValue);
+      onChange?.(e);
     };
 
     const handleClear = () => {
       if (value === undefined) {
         setInternalValue('');
       }
+      if (mask) onMaskedValueChange?.(applyMask('', mask));
+      if (isNumeric) {
+        commitNumber(null);
+        if (numberText !== null) setNumberText('');
+      } else {
+        validation.handleChange('');
+      }
+      emitTextChange('');
       onClear?.();
     };
 
@@ -142,84 +452,160 @@ const InputField = forwardRef<HTMLInputElement, InputFieldProps>(
       setShowPassword(!showPassword);
     };
 
-    const displayType = isPassword && showPassword ? 'text' : type;
+    // Numeric mode shows formatted text, which a native number input would reject
+    const displayType = isNumeric ? 'text' : isPassword && showPassword ? 'text' : type;
+
+    const renderStepper = (direction: 1 | -1) => {
+      const limit = direction > 0 ? maxValue : minValue;
+      const atLimit = numberValue !== null && limit !== undefined && numberValue * direction >= limit * direction;
+      const Icon = direction > 0 ? ChevronUp : ChevronDown;
+      return (
+        <button
+          type="button"
+          // Keeps focus, and the text being typed, in the input
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => stepNumber(direction)}
+          disabled={atLimit}
+          className={cn(
+            'flex flex-1 items-center justify-center text-muted-foreground',
+            'hover:bg-muted hover:text-primary transition-colors-smooth focus:outline-none',
+            'disabled:pointer-events-none disabled:opacity-40'
+          )}
+          tabIndex={-1}
+          aria-label={direction > 0 ? 'Increase value' : 'Decrease value'}
+        >
+          <Icon className="h-3 w-3" />
+        </button>
+      );
+    };
+
+    const focusInputFromAdornment = (e: React.MouseEvent<HTMLDivElement>) => {
+      if ((e.target as HTMLElement).closest(ADORNMENT_CONTROL_SELECTOR) || disabled) return;
+      e.preventDefault();
+      inputRef.current?.focus();
+    };
+
+    // Numeric mode is a spinbutton; other types keep the native min, max and step
+    const rangeProps = isNumeric
+      ? {
+          role: 'spinbutton',
+          inputMode: 'decimal' as const,
+          autoComplete: 'off',
+          'aria-valuenow': numberValue ?? undefined,
+          'aria-valuemin': minValue,
+          'aria-valuemax': maxValue,
+          'aria-valuetext': formatNumberDisplay(numberValue, numberFormat) || undefined,
+        }
+      : { min, max, step };
 
     return (
       <div className={cn('space-y-2', containerClassName)}>
         {label && (
-          <label className={cn(labelVariants({ state: inputState }))}>
+          <label htmlFor={inputId} className={cn(labelVariants({ state: inputState }))}>
             {label}
           </label>
         )}
         
         <div className="relative group">
+          {startAdornment && (
+            <div
+              ref={startRef}
+              onMouseDown={focusInputFromAdornment}
+              className={cn(
+                'absolute inset-y-0 left-0',
+                adornmentClass,
+                variant === 'ghost' ? 'pl-0' : 'pl-3',
+                disabled && 'opacity-50'
+              )}
+            >
+              {startAdornment}
+            </div>
+          )}
+
           <input
             type={displayType}
-            className={cn(
-              inputVariants({ variant, size, state: inputState }),
-              showPasswordToggle && 'pr-10',
-              showClearButton && 'pr-10',
-              showPasswordToggle && showClearButton && 'pr-16',
-              className
-            )}
-            ref={ref}
+            className={cn(inputVariants({ variant, size, state: inputState }), className)}
+            style={{ paddingLeft: padding.left, paddingRight: padding.right, ...style }}
+            ref={inputRef}
             disabled={disabled}
             value={currentValue}
+            inputMode={mask ? getMaskInputMode(mask) : undefined}
+            {...rangeProps}
             onChange={handleInputChange}
-            aria-invalid={invalid || !!errorMessage}
-            aria-describedby={
-              errorMessage ? `${props.id}-error` : helperText ? `${props.id}-helper` : undefined
-            }
+            onKeyDown={handleKeyDown}
+            onFocus={handleFocus}
+            onBlur={handleBlur}
+            aria-invalid={invalid || !!error}
+            aria-busy={validating || undefined}
+            aria-describedby={message ? messageId : undefined}
             {...props}
+            id={inputId}
           />
 
-          {loading && (
-            <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-              <Loader2 className="h-4 w-4 animate-spin text-primary" />
-            </div>
-          )}
+          {hasEnd && (
+            <div ref={endRef} className="absolute inset-y-0 right-0 flex">
+              {hasEndControls && (
+                <div
+                  onMouseDown={focusInputFromAdornment}
+                  className={cn(adornmentClass, 'pr-3', disabled && 'opacity-50')}
+                >
+                  {endAdornment}
 
-          {showPasswordToggle && !loading && (
-            <button
-              type="button"
-              onClick={togglePasswordVisibility}
-              className={cn(
-                'absolute inset-y-0 right-0 pr-3 flex items-center text-muted-foreground',
-                'hover:text-primary transition-colors-smooth focus:outline-none focus:text-primary',
-                'rounded-md focus-ring',
-                showClearButton && 'right-8'
+                  {showPasswordToggle && (
+                    <button
+                      type="button"
+                      onClick={togglePasswordVisibility}
+                      className={cn(
+                        'flex items-center text-muted-foreground',
+                        'hover:text-primary transition-colors-smooth focus:outline-none focus:text-primary',
+                        'rounded-md focus-ring'
+                      )}
+                      tabIndex={-1}
+                      aria-label={showPassword ? 'Hide password' : 'Show password'}
+                    >
+                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                  )}
+
+                  {showClearButton && (
+                    <button
+                      type="button"
+                      onClick={handleClear}
+                      className={cn(
+                        'flex items-center text-muted-foreground',
+                        'hover:text-primary transition-colors-smooth focus:outline-none focus:text-primary',
+                        'rounded-md focus-ring'
+                      )}
+                      tabIndex={-1}
+                      aria-label="Clear input"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+
+                  {busy && <Loader2 className="animate-spin text-primary" />}
+                  {showSuccessIcon && <CheckCircle2 className="text-success" aria-hidden="true" />}
+                </div>
               )}
-              tabIndex={-1}
-              aria-label={showPassword ? 'Hide password' : 'Show password'}
-            >
-              {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-            </button>
-          )}
 
-          {showClearButton && !loading && (
-            <button
-              type="button"
-              onClick={handleClear}
-              className={cn(
-                'absolute inset-y-0 right-0 pr-3 flex items-center text-muted-foreground',
-                'hover:text-primary transition-colors-smooth focus:outline-none focus:text-primary',
-                'rounded-md focus-ring'
+              {showSteppers && (
+                <div className="my-px mr-px flex w-7 flex-col overflow-hidden rounded-r-lg border-l border-border">
+                  {renderStepper(1)}
+                  {renderStepper(-1)}
+                </div>
               )}
-              tabIndex={-1}
-              aria-label="Clear input"
-            >
-              <X className="h-4 w-4" />
-            </button>
+            </div>
           )}
         </div>
 
-        {(errorMessage || helperText) && (
+        {message && (
           <p
             className={cn(helperTextVariants({ state: inputState }))}
-            id={errorMessage ? `${props.id}-error` : `${props.id}-helper`}
-            role={errorMessage ? 'alert' : undefined}
+            id={messageId}
+            role={error ? 'alert' : undefined}
+            aria-live={validate ? 'polite' : undefined}
           >
-            {errorMessage || helperText}
+            {message}
           </p>
         )}
       </div>
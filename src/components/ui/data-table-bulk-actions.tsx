@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Loader2 } from 'lucide-react';
+import { Button, buttonVariants } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from '@/hooks/use-toast';
+
+export interface DataTableBulkActionContext {
+  /** Server-side "select all matching" is active, so `rows` only holds the loaded ones. */
+  allMatchingSelected: boolean;
+}
+
+export interface DataTableBulkAction<T> {
+  id: string;
+  label: string;
+  icon?: React.ReactNode;
+  /** Show the action in the "More" menu instead of as a button. */
+  inMenu?: boolean;
+  /** Style the action as destructive and confirm it in a dialog before running. */
+  destructive?: boolean;
+  /** Confirmation dialog. Defaults to on for destructive actions. */
+  confirm?: boolean | { title?: string; description?: string | ((rows: T[]) => string); confirmLabel?: string };
+  disabled?: (rows: T[]) => boolean;
+  /** Runs once with every selected row. A rejection is reported as a toast. */
+  onAction?: (rows: T[], context: DataTableBulkActionContext) => void | Promise<void>;
+  /**
+   * Runs once per selected row, one at a time, with a progress bar. Failed rows are
+   * reported in a toast and stay selected so the action can be retried.
+   */
+  onRowAction?: (row: T) => void | Promise<void>;
+  /** Clear the rows the action succeeded for. Defaults to true. */
+  clearSelection?: boolean;
+}
+
+interface DataTableBulkActionsProps<T> {
+  actions: DataTableBulkAction<T>[];
+  rows: [string | number, T][];
+  allMatchingSelected: boolean;
+  /** Readable name of a row, used to list the rows an action failed for */
+  getRowLabel: (row: T, key: string | number) => string;
+  /** Called with the keys that should stay selected, or nothing to keep the selection as-is */
+  onComplete: (remainingKeys?: (string | number)[]) => void;
+}
+
+// Failed rows listed in the toast; the rest are summed up as "+N more"
+const MAX_LISTED_FAILURES = 3;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error && error.message ? error.message : 'Something went wrong';
+
+const DataTableBulkActions = <T,>({
+  actions,
+  rows,
+  allMatchingSelected,
+  getRowLabel,
+  onComplete,
+}: DataTableBulkActionsProps<T>) => {
+  const [pendingAction, setPendingAction] = useState<DataTableBulkAction<T> | null>(null);
+  // Long actions finish after later renders, so completion reads the latest callback
+  const onCompleteRef = useRef(onComplete);
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  });
+  const [running, setRunning] = useState<{ label: string; done: number; total: number } | null>(null);
+  const selectedRows = rows.map(([, row]) => row);
+
+  const run = async (action: DataTableBulkAction<T>) => {
+    const clear = action.clearSelection !== false;
+
+    if (action.onRowAction) {
+      const failures: { key: string | number; label: string; message: string }[] = [];
+      setRunning({ label: action.label, done: 0, total: rows.length });
+      for (const [index, [key, row]] of rows.entries()) {
+        try {
+          await action.onRowAction(row);
+        } catch (error) {
+          failures.push({ key, label: getRowLabel(row, key), message: errorMessage(error) });
+        }
+        setRunning({ label: action.label, done: index + 1, total: rows.length });
+      }
+      setRunning(null);
+
+      if (failures.length > 0) {
+        toast({
+          variant: 'destructive',
+          title: `${action.label} failed for ${failures.length} of ${rows.length} rows`,
+          description: (
+            <ul className="mt-1 space-y-0.5">
+              {failures.slice(0, MAX_LISTED_FAILURES).map(({ key, label, message }) => (
+                <li key={key}>
+                  <span className="font-medium">{label}</span>: {message}
+                </li>
+              ))}
+              {failures.length > MAX_LISTED_FAILURES && <li>+{failures.length - MAX_LISTED_FAILURES} more</li>}
+            </ul>
+          ),
+        });
+      }
+      onCompleteRef.current(clear ? failures.map(({ key }) => key) : undefined);
+      return;
+    }
+
+    setRunning({ label: action.label, done: 0, total: 0 });
+    try {
+      await action.onAction?.(selectedRows, { allMatchingSelected });
+      onCompleteRef.current(clear ? [] : undefined);
+    } catch (error) {
+      toast({ variant: 'destructive', title: `${action.label} failed`, description: errorMessage(error) });
+      onCompleteRef.current();
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const trigger = (action: DataTableBulkAction<T>) => {
+    if (action.confirm ?? action.destructive) {
+      setPendingAction(action);
+    } else {
+      run(action);
+    }
+  };
+
+  const isDisabled = (action: DataTableBulkAction<T>) => !!running || !!action.disabled?.(selectedRows);
+  const buttonActions = actions.filter(action => !action.inMenu);
+  const menuActions = actions.filter(action => action.inMenu);
+  const confirmOptions = typeof pendingAction?.confirm === 'object' ? pendingAction.confirm : {};
+  const confirmDescription =
+    typeof confirmOptions.description === 'function'
+      ? confirmOptions.description(selectedRows)
+      : confirmOptions.description;
+
+  if (running) {
+    return (
+      <div className="flex items-center gap-3 min-w-[12rem]" role="status">
+        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+        <span className="text-sm text-primary whitespace-nowrap">
+          {running.label}
+          {running.total > 0 && ` ${running.done} of ${running.total}`}…
+        </span>
+        {running.total > 0 && (
+          <Progress value={(running.done / running.total) * 100} className="h-2 w-32" aria-label="Bulk action progress" />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {buttonActions.map(action => (
+        <Button
+          key={action.id}
+          variant={action.destructive ? 'destructive' : 'outline'}
+          size="sm"
+          disabled={isDisabled(action)}
+          onClick={() => trigger(action)}
+        >
+          {action.icon}
+          {action.label}
+        </Button>
+      ))}
+      {menuActions.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              More
+              <ChevronDown />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {menuActions.map(action => (
+              <DropdownMenuItem
+                key={action.id}
+                disabled={isDisabled(action)}
+                onSelect={() => trigger(action)}
+                className={action.destructive ? 'text-destructive focus:text-destructive' : undefined}
+              >
+                {action.icon}
+                {action.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <AlertDialog open={!!pendingAction} onOpenChange={open => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirmOptions.title ??
+                `${pendingAction?.label} ${allMatchingSelected ? 'all matching' : rows.length} row${rows.length !== 1 || allMatchingSelected ? 's' : ''}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmDescription ?? 'This action cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={pendingAction?.destructive ? buttonVariants({ variant: 'destructive' }) : undefined}
+              onClick={() => run(pendingAction)}
+            >
+              {confirmOptions.confirmLabel ?? pendingAction?.label}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export { DataTableBulkActions };
@@ -0,0 +1,121 @@
+import React, { useRef, useState } from 'react';
+import { InputField } from '@/components/ui/InputField';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  fromEditorInput,
+  toEditorInput,
+  validateCellValue,
+  type CellEditor,
+} from '@/components/ui/data-table-editing';
+
+export type EditMove = 'next' | 'previous';
+
+interface DataTableCellEditorProps<T> {
+  editor: CellEditor<T>;
+  value: unknown;
+  row: T;
+  label: string;
+  /** Called with a validated value. `move` is set when the edit was ended with Tab. */
+  onCommit: (value: unknown, move?: EditMove) => void;
+  onCancel: () => void;
+}
+
+const DataTableCellEditor = <T,>({ editor, value, row, label, onCommit, onCancel }: DataTableCellEditorProps<T>) => {
+  const isNumeric = editor.type !== 'date' && typeof value === 'number';
+  const [input, setInput] = useState(() => toEditorInput(value, editor.type));
+  // Numeric editors keep the number InputField parsed, which also follows the steppers, arrow keys and wheel
+  const [numberInput, setNumberInput] = useState<number | null>(isNumeric ? (value as number) : null);
+  const [error, setError] = useState<string>();
+  // Set once the edit has ended so the blur caused by unmounting is ignored
+  const doneRef = useRef(false);
+
+  const tryCommit = (nextInput: string, move?: EditMove) => {
+    if (doneRef.current) return;
+    const parsedInput = fromEditorInput(nextInput, value, editor, row);
+    // Unreadable text keeps its "Must be a number" error rather than committing the last number
+    const nextValue =
+      isNumeric && !editor.parse && !(typeof parsedInput === 'number' && Number.isNaN(parsedInput))
+        ? numberInput
+        : parsedInput;
+    const validationError = validateCellValue(nextValue, value, editor, row);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    doneRef.current = true;
+    onCommit(nextValue, move);
+  };
+
+  const cancel = () => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    onCancel();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keep table-level shortcuts from firing while typing
+    e.stopPropagation();
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      tryCommit(input);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      cancel();
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      tryCommit(input, e.shiftKey ? 'previous' : 'next');
+    }
+  };
+
+  if (editor.type === 'select') {
+    return (
+      <Select
+        defaultOpen
+        value={input}
+        onValueChange={next => {
+          setInput(next);
+          tryCommit(next);
+        }}
+        onOpenChange={open => {
+          if (!open) cancel();
+        }}
+      >
+        <SelectTrigger className="h-9" aria-label={`Edit ${label}`} onKeyDown={handleKeyDown}>
+          <SelectValue placeholder={editor.placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {(editor.options ?? []).map(option => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <InputField
+      size="sm"
+      type={editor.type === 'date' ? 'date' : isNumeric ? 'number' : 'text'}
+      value={isNumeric ? numberInput ?? '' : input}
+      placeholder={editor.placeholder}
+      onChange={e => {
+        setInput(e.target.value);
+        setError(undefined);
+      }}
+      onValueChange={setNumberInput}
+      onKeyDown={handleKeyDown}
+      // Clicking elsewhere keeps the change like a spreadsheet; invalid input stays open with its error
+      onBlur={() => tryCommit(input)}
+      invalid={!!error}
+      errorMessage={error}
+      aria-label={`Edit ${label}`}
+      autoFocus
+      containerClassName="space-y-0 min-w-[8rem]"
+    />
+  );
+};
+
+export { DataTableCellEditor };
@@ -0,0 +1,145 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { fromEditorInput, type CellEditor } from '@/components/ui/data-table-editing';
+import type { ExportValue } from '@/components/ui/data-table-export';
+
+/** Rectangle of grid cells between the cell a range started on and the cell it extends to */
+export interface CellRange {
+  anchor: { row: number; col: number };
+  focus: { row: number; col: number };
+}
+
+export const getRangeBounds = ({ anchor, focus }: CellRange) => ({
+  top: Math.min(anchor.row, focus.row),
+  bottom: Math.max(anchor.row, focus.row),
+  left: Math.min(anchor.col, focus.col),
+  right: Math.max(anchor.col, focus.col),
+});
+
+// Dates without a time of day are copied as plain dates so they paste back unchanged
+export const formatClipboardValue = (value: ExportValue) => {
+  if (value == null) return '';
+  if (value instanceof Date) {
+    if (!isValid(value)) return '';
+    const hasTime = value.getHours() || value.getMinutes() || value.getSeconds();
+    return format(value, hasTime ? 'yyyy-MM-dd HH:mm:ss' : 'yyyy-MM-dd');
+  }
+  return String(value);
+};
+
+// Spreadsheets quote fields that contain tabs, quotes or line breaks, doubling inner quotes.
+// Unlike file exports, formulas are not neutralised so a copy pastes back as it was.
+const escapeTsvField = (field: string) => (/[\t"\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field);
+
+export const toClipboardText = (rows: string[][]) =>
+  rows.map(cells => cells.map(escapeTsvField).join('\t')).join('\r\n');
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** HTML table for rich paste into documents and spreadsheets that keep the cell layout */
+export const toClipboardHtml = (rows: string[][], headers?: string[]) => {
+  const row = (cells: string[], tag: 'th' | 'td') =>
+    `<tr>${cells.map(cell => `<${tag}>${escapeHtml(cell).replace(/\r?\n/g, '<br>')}</${tag}>`).join('')}</tr>`;
+  return [
+    '<table>',
+    headers ? `<thead>${row(headers, 'th')}</thead>` : '',
+    `<tbody>${rows.map(cells => row(cells, 'td')).join('')}</tbody>`,
+    '</table>',
+  ].join('');
+};
+
+/** Splits tab-separated text into rows of cells, honouring quoted fields */
+export const parseClipboardText = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let cells: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === '\t') {
+      cells.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      cells.push(field);
+      rows.push(cells);
+      cells = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  // Spreadsheets end a copied block with a line break, which is not an extra empty row
+  if (field !== '' || cells.length > 0) {
+    cells.push(field);
+    rows.push(cells);
+  }
+  return rows;
+};
+
+const TRUE_INPUTS = ['true', 'yes', 'y', '1', 'x', '✓'];
+const FALSE_INPUTS = ['false', 'no', 'n', '0', ''];
+
+/**
+ * Turns pasted text into a cell value for the column's editor. Select cells accept an
+ * option's value or label and checkboxes the usual spreadsheet spellings of true and false.
+ */
+export const fromClipboardInput = <T>(
+  input: string,
+  previousValue: unknown,
+  editor: CellEditor<T>,
+  row: T
+): { value: unknown } | { error: string } => {
+  const trimmed = input.trim();
+  if (editor.parse) return { value: editor.parse(input, row) };
+
+  switch (editor.type) {
+    case 'checkbox': {
+      const normalized = trimmed.toLowerCase();
+      if (TRUE_INPUTS.includes(normalized)) return { value: true };
+      if (FALSE_INPUTS.includes(normalized)) return { value: false };
+      return { error: 'Must be true or false' };
+    }
+    case 'select': {
+      const option = editor.options?.find(
+        option => option.value === trimmed || option.label.toLowerCase() === trimmed.toLowerCase()
+      );
+      if (option) return { value: option.value };
+      return { error: `Must be one of ${editor.options?.map(option => option.label).join(', ')}` };
+    }
+    case 'date': {
+      if (!trimmed) return { value: fromEditorInput('', previousValue, editor, row) };
+      const date = parseISO(trimmed);
+      if (!isValid(date)) return { error: 'Must be a date like 2024-01-31' };
+      return { value: fromEditorInput(format(date, 'yyyy-MM-dd'), previousValue, editor, row) };
+    }
+    default:
+      return { value: fromEditorInput(input, previousValue, editor, row) };
+  }
+};
+
+/** Writes plain text and, where the browser supports it, an HTML version alongside */
+export const writeClipboard = async (text: string, html: string) => {
+  if (typeof ClipboardItem !== 'undefined' && navigator.clipboard.write) {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        'text/plain': new Blob([text], { type: 'text/plain' }),
+        'text/html': new Blob([html], { type: 'text/html' }),
+      }),
+    ]);
+  } else {
+    await navigator.clipboard.writeText(text);
+  }
+};
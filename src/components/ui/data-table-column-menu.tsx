@@ -0,0 +1,167 @@
+import React from 'react';
+import { ArrowLeft, ArrowRight, EyeOff, Group, MoreVertical, Pin, PinOff, Settings2, Ungroup } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { ColumnPin } from '@/components/ui/data-table-columns';
+
+interface ChooserColumn {
+  key: string;
+  title: string;
+  visible: boolean;
+  hideable: boolean;
+}
+
+interface DataTableColumnChooserProps {
+  columns: ChooserColumn[];
+  onVisibilityChange: (key: string, visible: boolean) => void;
+  onReset: () => void;
+}
+
+const DataTableColumnChooser = ({ columns, onVisibilityChange, onReset }: DataTableColumnChooserProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="outline" size="sm" className="h-9">
+        <Settings2 />
+        Columns
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="w-48">
+      <DropdownMenuLabel>Toggle columns</DropdownMenuLabel>
+      <DropdownMenuSeparator />
+      {columns.map(column => (
+        <DropdownMenuCheckboxItem
+          key={column.key}
+          checked={column.visible}
+          disabled={!column.hideable}
+          // Keep the menu open so several columns can be toggled in one go
+          onSelect={e => e.preventDefault()}
+          onCheckedChange={checked => onVisibilityChange(column.key, checked)}
+        >
+          {column.title}
+        </DropdownMenuCheckboxItem>
+      ))}
+      <DropdownMenuSeparator />
+      <DropdownMenuItem onSelect={onReset}>Reset layout</DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+interface DataTableColumnMenuProps {
+  title: string;
+  pin?: ColumnPin;
+  canMoveLeft: boolean;
+  canMoveRight: boolean;
+  canHide: boolean;
+  canPin: boolean;
+  canReorder: boolean;
+  canGroup: boolean;
+  grouped: boolean;
+  onMove: (direction: 'left' | 'right') => void;
+  onPin: (pin: ColumnPin | null) => void;
+  onHide: () => void;
+  onGroupChange: (grouped: boolean) => void;
+  className?: string;
+}
+
+const DataTableColumnMenu = ({
+  title,
+  pin,
+  canMoveLeft,
+  canMoveRight,
+  canHide,
+  canPin,
+  canReorder,
+  canGroup,
+  grouped,
+  onMove,
+  onPin,
+  onHide,
+  onGroupChange,
+  className,
+}: DataTableColumnMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <button
+        type="button"
+        // The header itself sorts on click
+        onClick={e => e.stopPropagation()}
+        // Reached with F2 from the focused header cell (grid navigation)
+        tabIndex={-1}
+        className={cn(
+          'ml-1 rounded-md p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground focus-ring',
+          'opacity-0 group-hover/header:opacity-100 focus:opacity-100 data-[state=open]:opacity-100',
+          className
+        )}
+        aria-label={`${title} column options`}
+      >
+        <MoreVertical className="h-4 w-4" />
+      </button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="start" className="w-44" onClick={e => e.stopPropagation()}>
+      {canReorder && (
+        <>
+          <DropdownMenuItem disabled={!canMoveLeft} onSelect={() => onMove('left')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Move left
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!canMoveRight} onSelect={() => onMove('right')}>
+            <ArrowRight className="mr-2 h-4 w-4" />
+            Move right
+          </DropdownMenuItem>
+        </>
+      )}
+      {canPin && (
+        <>
+          {canReorder && <DropdownMenuSeparator />}
+          {pin !== 'left' && (
+            <DropdownMenuItem onSelect={() => onPin('left')}>
+              <Pin className="mr-2 h-4 w-4" />
+              Pin left
+            </DropdownMenuItem>
+          )}
+          {pin !== 'right' && (
+            <DropdownMenuItem onSelect={() => onPin('right')}>
+              <Pin className="mr-2 h-4 w-4" />
+              Pin right
+            </DropdownMenuItem>
+          )}
+          {pin && (
+            <DropdownMenuItem onSelect={() => onPin(null)}>
+              <PinOff className="mr-2 h-4 w-4" />
+              Unpin
+            </DropdownMenuItem>
+          )}
+        </>
+      )}
+      {canHide && (
+        <>
+          {(canReorder || canPin) && <DropdownMenuSeparator />}
+          <DropdownMenuItem onSelect={onHide}>
+            <EyeOff className="mr-2 h-4 w-4" />
+            Hide column
+          </DropdownMenuItem>
+        </>
+      )}
+      {canGroup && (
+        <>
+          {(canReorder || canPin || canHide) && <DropdownMenuSeparator />}
+          <DropdownMenuItem onSelect={() => onGroupChange(!grouped)}>
+            {grouped ? <Ungroup className="mr-2 h-4 w-4" /> : <Group className="mr-2 h-4 w-4" />}
+            {grouped ? 'Remove grouping' : 'Group by column'}
+          </DropdownMenuItem>
+        </>
+      )}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export { DataTableColumnChooser, DataTableColumnMenu };
@@ -0,0 +1,144 @@
+export type ColumnPin = 'left' | 'right';
+
+/**
+ * User-adjustable column layout. Plain JSON so it can be stored or shared as-is.
+ * Columns are referenced by key; keys missing from `order` keep their position
+ * from the `columns` prop after the ordered ones.
+ */
+export interface DataTableColumnLayout {
+  order: string[];
+  hidden: string[];
+  /** Widths in pixels for resized columns */
+  widths: Record<string, number>;
+  /** `null` marks a column that is pinned by default as explicitly unpinned */
+  pinned: Record<string, ColumnPin | null>;
+}
+
+export interface DataTableColumnControls {
+  /** Column chooser in the toolbar. Defaults to true. */
+  chooser?: boolean;
+  /** Drag headers to reorder. Defaults to true. */
+  reorder?: boolean;
+  /** Drag header borders to resize. Defaults to true. */
+  resize?: boolean;
+  /** Pin columns to the left or right edge from the header menu. Defaults to true. */
+  pin?: boolean;
+}
+
+export const EMPTY_COLUMN_LAYOUT: DataTableColumnLayout = {
+  order: [],
+  hidden: [],
+  widths: {},
+  pinned: {},
+};
+
+export const DEFAULT_MIN_COLUMN_WIDTH = 60;
+
+interface LayoutColumn {
+  key: PropertyKey;
+  hideable?: boolean;
+  pinned?: ColumnPin;
+}
+
+/** Columns in display order: left-pinned, unpinned, right-pinned, each following `layout.order` */
+export const resolveColumns = <C extends LayoutColumn>(columns: C[], layout: DataTableColumnLayout): C[] => {
+  const position = (column: C) => {
+    const index = layout.order.indexOf(String(column.key));
+    return index === -1 ? layout.order.length + columns.indexOf(column) : index;
+  };
+  const pinGroup = (column: C) => {
+    const pin = getColumnPin(column, layout);
+    return pin === 'left' ? 0 : pin === 'right' ? 2 : 1;
+  };
+
+  return columns
+    .filter(column => column.hideable === false || !layout.hidden.includes(String(column.key)))
+    .sort((a, b) => pinGroup(a) - pinGroup(b) || position(a) - position(b));
+};
+
+export const getColumnPin = (column: LayoutColumn, layout: DataTableColumnLayout): ColumnPin | undefined => {
+  const key = String(column.key);
+  return key in layout.pinned ? layout.pinned[key] ?? undefined : column.pinned;
+};
+
+export interface StickyColumnOffsets {
+  /** Distance from the pinned edge for each sticky column, by key */
+  offsets: Record<string, { side: ColumnPin; offset: number }>;
+  /** Total width stuck to each edge */
+  left: number;
+  right: number;
+}
+
+/**
+ * Sticky offsets for columns in display order. Left-pinned columns stack from the left
+ * edge and right-pinned ones from the right edge, using the measured `widths`.
+ */
+export const getStickyOffsets = (
+  columns: { key: string; pin?: ColumnPin }[],
+  widths: Record<string, number>
+): StickyColumnOffsets => {
+  const offsets: StickyColumnOffsets['offsets'] = {};
+  let left = 0;
+  columns.forEach(column => {
+    if (column.pin !== 'left') return;
+    offsets[column.key] = { side: 'left', offset: left };
+    left += widths[column.key] ?? 0;
+  });
+  let right = 0;
+  [...columns].reverse().forEach(column => {
+    if (column.pin !== 'right') return;
+    offsets[column.key] = { side: 'right', offset: right };
+    right += widths[column.key] ?? 0;
+  });
+  return { offsets, left, right };
+};
+
+/** Moves `sourceKey` to the position of `targetKey` in the full column order */
+export const moveColumn = (
+  columns: LayoutColumn[],
+  layout: DataTableColumnLayout,
+  sourceKey: string,
+  targetKey: string
+): DataTableColumnLayout => {
+  const order = resolveColumns(columns, { ...layout, hidden: [] }).map(column => String(column.key));
+  const from = order.indexOf(sourceKey);
+  const to = order.indexOf(targetKey);
+  if (from === -1 || to === -1 || from === to) return layout;
+
+  order.splice(to, 0, order.splice(from, 1)[0]);
+  return { ...layout, order };
+};
+
+export const setColumnHidden = (layout: DataTableColumnLayout, key: string, hidden: boolean): DataTableColumnLayout => ({
+  ...layout,
+  hidden: hidden ? [...layout.hidden.filter(item => item !== key), key] : layout.hidden.filter(item => item !== key),
+});
+
+export const setColumnWidth = (layout: DataTableColumnLayout, key: string, width: number): DataTableColumnLayout => ({
+  ...layout,
+  widths: { ...layout.widths, [key]: Math.round(width) },
+});
+
+export const setColumnPin = (layout: DataTableColumnLayout, key: string, pin: ColumnPin | null): DataTableColumnLayout => ({
+  ...layout,
+  pinned: { ...layout.pinned, [key]: pin },
+});
+
+export const loadColumnLayout = (storageKey: string): DataTableColumnLayout | undefined => {
+  try {
+    const stored = window.localStorage.getItem(storageKey);
+    if (!stored) return undefined;
+    return { ...EMPTY_COLUMN_LAYOUT, ...JSON.parse(stored) };
+  } catch {
+    // Unavailable storage or corrupt JSON falls back to the default layout
+    return undefined;
+  }
+};
+
+export const saveColumnLayout = (storageKey: string, layout: DataTableColumnLayout) => {
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(layout));
+  } catch {
+    // Storage can be full or disabled; the layout then only lasts for the session
+  }
+};
@@ -0,0 +1,88 @@
+import { format } from 'date-fns';
+import { formatNumberInput, parseNumberInput } from '@/components/ui/input-field-number';
+import type { ZodType } from 'zod';
+import type { FilterOption } from '@/components/ui/data-table-filters';
+
+export type CellEditorType = 'text' | 'select' | 'checkbox' | 'date';
+
+export interface CellEditor<T> {
+  /** Editor UI. Defaults to `checkbox` for booleans and `text` otherwise. */
+  type?: CellEditorType;
+  /** Choices for the `select` editor. */
+  options?: FilterOption[];
+  /** Schema the new value must satisfy before it is committed. */
+  schema?: ZodType;
+  /** Extra validation. Return an error message to reject the value. */
+  validate?: (value: unknown, row: T) => string | undefined;
+  /** Converts the editor's raw input into the stored value. */
+  parse?: (input: string, row: T) => unknown;
+  placeholder?: string;
+}
+
+/** Identifies a cell by its row key and column key */
+export interface CellPosition {
+  rowKey: string | number;
+  columnKey: string;
+}
+
+export const getCellId = ({ rowKey, columnKey }: CellPosition) => `${rowKey}:${columnKey}`;
+
+export const normalizeCellEditor = <T>(
+  editable: boolean | CellEditor<T> | undefined,
+  sampleValue: unknown
+): CellEditor<T> | undefined => {
+  if (!editable) return undefined;
+  const editor = editable === true ? {} : editable;
+  return {
+    ...editor,
+    type: editor.type ?? (typeof sampleValue === 'boolean' ? 'checkbox' : 'text'),
+  };
+};
+
+/** String shown in a text or date editor for the current value */
+export const toEditorInput = (value: unknown, type: CellEditorType) => {
+  if (value == null) return '';
+  if (type === 'date') {
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    return Number.isNaN(date.getTime()) ? '' : format(date, 'yyyy-MM-dd');
+  }
+  if (typeof value === 'number') return formatNumberInput(value, {});
+  return String(value);
+};
+
+/**
+ * Turns editor input back into a cell value. Numbers stay numbers and dates keep
+ * the type of the original value (Date objects or ISO strings) unless `parse` is given.
+ */
+export const fromEditorInput = <T>(
+  input: string,
+  previousValue: unknown,
+  editor: CellEditor<T>,
+  row: T
+): unknown => {
+  if (editor.parse) return editor.parse(input, row);
+  if (editor.type === 'date') {
+    if (!input) return null;
+    const date = new Date(`${input}T00:00:00`);
+    return previousValue instanceof Date ? date : date.toISOString();
+  }
+  // Read like the numeric InputField does, so `1,234.5` (or `1.234,5` in German) is a number
+  if (typeof previousValue === 'number') {
+    return parseNumberInput(input, {});
+  }
+  return input;
+};
+
+/** Returns the first validation error for a value, if any */
+export const validateCellValue = <T>(value: unknown, previousValue: unknown, editor: CellEditor<T>, row: T) => {
+  if (typeof previousValue === 'number' && typeof value === 'number' && Number.isNaN(value)) {
+    return 'Must be a number';
+  }
+  if (editor.schema) {
+    const result = editor.schema.safeParse(value);
+    if (!result.success) {
+      return result.error.issues[0]?.message ?? 'Invalid value';
+    }
+  }
+  return editor.validate?.(value, row);
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { EXPORT_FORMAT_LABELS, type ExportFormat } from '@/components/ui/data-table-export';
+
+interface DataTableExportMenuProps {
+  formats: ExportFormat[];
+  selectedCount: number;
+  onExport: (format: ExportFormat, rows: 'all' | 'selected') => void;
+}
+
+const DataTableExportMenu = ({ formats, selectedCount, onExport }: DataTableExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="outline" size="sm" className="h-9">
+        <Download />
+        Export
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="w-56">
+      <DropdownMenuLabel>All rows</DropdownMenuLabel>
+      {formats.map(format => (
+        <DropdownMenuItem key={format} onSelect={() => onExport(format, 'all')}>
+          {EXPORT_FORMAT_LABELS[format]}
+        </DropdownMenuItem>
+      ))}
+      {selectedCount > 0 && (
+        <>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Selected rows ({selectedCount})</DropdownMenuLabel>
+          {formats.map(format => (
+            <DropdownMenuItem key={format} onSelect={() => onExport(format, 'selected')}>
+              {EXPORT_FORMAT_LABELS[format]}
+            </DropdownMenuItem>
+          ))}
+        </>
+      )}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export { DataTableExportMenu };
@@ -0,0 +1,165 @@
+/** `excel` writes SpreadsheetML 2003, an XML workbook Excel and LibreOffice open directly. */
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'excel';
+
+export type ExportValue = string | number | boolean | Date | null | undefined;
+
+export interface DataTableExportOptions {
+  format?: ExportFormat;
+  /** Export every sorted and filtered row, or only the selected ones. Defaults to `all`. */
+  rows?: 'all' | 'selected';
+  /** File name without extension. Defaults to `export`. */
+  filename?: string;
+  /** Prefix CSV and TSV files with a UTF-8 byte order mark so Excel detects the encoding. Defaults to true. */
+  bom?: boolean;
+  /**
+   * Format numbers in CSV and TSV for this locale. Locales with a decimal comma
+   * switch the CSV delimiter to a semicolon, as spreadsheets there expect.
+   */
+  locale?: string;
+  /** Trigger a file download. Defaults to true; the serialized content is always returned. */
+  download?: boolean;
+}
+
+/** `key` names the property in JSON output and `title` the header elsewhere */
+export interface ExportColumn<T> {
+  key: string;
+  title: string;
+  getValue: (row: T) => ExportValue;
+}
+
+const FORMATS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  tsv: { extension: 'tsv', mimeType: 'text/tab-separated-values;charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json;charset=utf-8' },
+  excel: { extension: 'xls', mimeType: 'application/vnd.ms-excel' },
+};
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  json: 'JSON',
+  excel: 'Excel (SpreadsheetML)',
+};
+
+const usesDecimalComma = (locale: string | undefined) =>
+  !!locale && new Intl.NumberFormat(locale).format(1.5).includes(',');
+
+const formatDelimitedValue = (value: ExportValue, locale: string | undefined) => {
+  if (value == null) return '';
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? '' : value.toISOString();
+  if (typeof value === 'number' && locale) {
+    // No grouping separators so spreadsheets still read the value as a number
+    return new Intl.NumberFormat(locale, { useGrouping: false, maximumFractionDigits: 20 }).format(value);
+  }
+  return String(value);
+};
+
+// Quote fields that contain the delimiter, quotes or line breaks, and neutralise
+// text that a spreadsheet would otherwise run as a formula.
+const escapeDelimitedField = (field: string, delimiter: string, isText: boolean) => {
+  const safe = isText && /^[=+\-@\t\r]/.test(field) ? `'${field}` : field;
+  return safe.includes(delimiter) || /["\r\n]/.test(safe) || safe !== safe.trim()
+    ? `"${safe.replace(/"/g, '""')}"`
+    : safe;
+};
+
+const toDelimited = <T>(columns: ExportColumn<T>[], rows: T[], delimiter: string, locale: string | undefined) => {
+  const line = (values: ExportValue[]) =>
+    values
+      .map(value => escapeDelimitedField(formatDelimitedValue(value, locale), delimiter, typeof value === 'string'))
+      .join(delimiter);
+
+  return [line(columns.map(column => column.title)), ...rows.map(row => line(columns.map(column => column.getValue(row))))]
+    .join('\r\n');
+};
+
+const toJson = <T>(columns: ExportColumn<T>[], rows: T[]) =>
+  JSON.stringify(
+    rows.map(row => Object.fromEntries(columns.map(column => [column.key, column.getValue(row) ?? null]))),
+    null,
+    2
+  );
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const toSpreadsheetCell = (value: ExportValue, styleId?: string) => {
+  const style = styleId ? ` ss:StyleID="${styleId}"` : '';
+  if (value == null) return `<Cell${style}/>`;
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<Cell${style}><Data ss:Type="Number">${value}</Data></Cell>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<Cell${style}><Data ss:Type="Boolean">${value ? 1 : 0}</Data></Cell>`;
+  }
+  if (value instanceof Date && !Number.isNaN(value.getTime())) {
+    // SpreadsheetML wants a timestamp without the zone designator
+    return `<Cell ss:StyleID="date"><Data ss:Type="DateTime">${value.toISOString().slice(0, -1)}</Data></Cell>`;
+  }
+  return `<Cell${style}><Data ss:Type="String">${escapeXml(String(value))}</Data></Cell>`;
+};
+
+const toSpreadsheetML = <T>(columns: ExportColumn<T>[], rows: T[], sheetName: string) => {
+  const row = (cells: string[]) => `   <Row>${cells.join('')}</Row>`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    ' <Styles>',
+    '  <Style ss:ID="header"><Font ss:Bold="1"/></Style>',
+    '  <Style ss:ID="date"><NumberFormat ss:Format="Short Date"/></Style>',
+    ' </Styles>',
+    // Sheet names are limited to 31 characters and a few reserved symbols
+    ` <Worksheet ss:Name="${escapeXml(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31))}">`,
+    '  <Table>',
+    row(columns.map(column => toSpreadsheetCell(column.title, 'header'))),
+    ...rows.map(item => row(columns.map(column => toSpreadsheetCell(column.getValue(item))))),
+    '  </Table>',
+    ' </Worksheet>',
+    '</Workbook>',
+  ].join('\n');
+};
+
+export const serializeRows = <T>(
+  columns: ExportColumn<T>[],
+  rows: T[],
+  options: DataTableExportOptions = {}
+) => {
+  const { format = 'csv', bom = true, locale, filename = 'export' } = options;
+  const { extension, mimeType } = FORMATS[format];
+
+  let content: string;
+  if (format === 'json') {
+    content = toJson(columns, rows);
+  } else if (format === 'excel') {
+    content = toSpreadsheetML(columns, rows, filename);
+  } else {
+    const delimiter = format === 'tsv' ? '\t' : usesDecimalComma(locale) ? ';' : ',';
+    content = (bom ? '\uFEFF' : '') + toDelimited(columns, rows, delimiter, locale);
+  }
+
+  return { content, filename: `${filename}.${extension}`, mimeType };
+};
+
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Toolbar export menu settings. Defaults apply to `exportData` calls too. */
+export interface DataTableExportConfig extends Pick<DataTableExportOptions, 'filename' | 'bom' | 'locale'> {
+  /** Formats offered in the menu. Defaults to all of them. */
+  formats?: ExportFormat[];
+}
@@ -0,0 +1,167 @@
+import { format } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+
+export type ColumnFilterType = 'text' | 'select' | 'multiSelect' | 'range' | 'dateRange';
+
+export interface FilterOption {
+  label: string;
+  value: string;
+}
+
+export interface ColumnFilter<T> {
+  type: ColumnFilterType;
+  /**
+   * Choices for `select` and `multiSelect`. Defaults to the distinct values in the column;
+   * required in manual mode, where only the loaded page is known.
+   */
+  options?: FilterOption[];
+  /**
+   * Bounds for `range`. Default to the smallest and largest values in the column;
+   * required in manual mode, where only the loaded page is known.
+   */
+  min?: number;
+  max?: number;
+  step?: number;
+  placeholder?: string;
+  /** Replaces the built-in matching for this column. */
+  filterFn?: (value: unknown, filterValue: unknown, row: T) => boolean;
+}
+
+/** Filter value shapes by filter type */
+export type TextFilterValue = string;
+export type SelectFilterValue = string;
+export type MultiSelectFilterValue = string[];
+export type RangeFilterValue = [number, number];
+export type DateRangeFilterValue = DateRange;
+
+/** Filter values keyed by column key. Empty values are ignored. */
+export type DataTableFilters = Record<string, unknown>;
+
+export const normalizeColumnFilter = <T>(
+  filter: ColumnFilterType | ColumnFilter<T> | undefined
+): ColumnFilter<T> | undefined => (typeof filter === 'string' ? { type: filter } : filter);
+
+export const isEmptyFilterValue = (value: unknown) => {
+  if (value == null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object' && !(value instanceof Date)) {
+    const range = value as DateRange;
+    return !range.from && !range.to;
+  }
+  return false;
+};
+
+const toTime = (value: unknown) =>
+  value instanceof Date ? value.getTime() : new Date(value as string | number).getTime();
+
+const endOfDay = (date: Date) => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end.getTime();
+};
+
+/** Whether a cell value passes a column filter. Columns without a filter config match by substring. */
+export const matchesFilter = <T>(
+  value: unknown,
+  filterValue: unknown,
+  filter: ColumnFilter<T> | undefined,
+  row: T
+): boolean => {
+  if (filter?.filterFn) {
+    return filter.filterFn(value, filterValue, row);
+  }
+
+  switch (filter?.type) {
+    case 'select':
+      return String(value ?? '') === String(filterValue);
+    case 'multiSelect':
+      return (filterValue as MultiSelectFilterValue).includes(String(value ?? ''));
+    case 'range': {
+      const [min, max] = filterValue as RangeFilterValue;
+      const number = typeof value === 'number' ? value : Number(value);
+      return !Number.isNaN(number) && number >= min && number <= max;
+    }
+    case 'dateRange': {
+      const { from, to } = filterValue as DateRangeFilterValue;
+      if (value == null || value === '') return false;
+      const time = toTime(value);
+      if (Number.isNaN(time)) return false;
+      return (!from || time >= from.getTime()) && (!to || time <= endOfDay(to));
+    }
+    default:
+      return String(value ?? '').toLowerCase().includes(String(filterValue).toLowerCase());
+  }
+};
+
+/**
+ * Case-insensitive fuzzy match: the query matches when it is a substring of the
+ * text or when all of its characters appear in the text in order.
+ */
+export const fuzzyMatch = (text: string, query: string) => {
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase();
+  if (haystack.includes(needle)) return true;
+
+  let position = 0;
+  for (const char of needle) {
+    position = haystack.indexOf(char, position);
+    if (position === -1) return false;
+    position++;
+  }
+  return true;
+};
+
+/** Every whitespace-separated term of the query has to match at least one of the values. */
+export const matchesGlobalFilter = (values: unknown[], query: string) => {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  const texts = values.filter(value => value != null).map(value => String(value));
+  return terms.every(term => texts.some(text => fuzzyMatch(text, term)));
+};
+
+export const getDistinctOptions = <T>(data: T[], key: keyof T): FilterOption[] => {
+  const values = new Set<string>();
+  data.forEach(row => {
+    const value = row[key];
+    if (value != null && value !== '') values.add(String(value));
+  });
+  return Array.from(values)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(value => ({ label: value, value }));
+};
+
+export const getNumericBounds = <T>(data: T[], key: keyof T): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  data.forEach(row => {
+    const number = Number(row[key]);
+    if (row[key] == null || Number.isNaN(number)) return;
+    min = Math.min(min, number);
+    max = Math.max(max, number);
+  });
+  return min === Infinity ? [0, 0] : [min, max];
+};
+
+/** Short human-readable description of a filter value, used for the active-filter chips. */
+export const formatFilterValue = <T>(value: unknown, filter: ColumnFilter<T> | undefined) => {
+  const labelFor = (optionValue: string) =>
+    filter?.options?.find(option => option.value === optionValue)?.label ?? optionValue;
+
+  switch (filter?.type) {
+    case 'select':
+      return labelFor(String(value));
+    case 'multiSelect':
+      return (value as MultiSelectFilterValue).map(labelFor).join(', ');
+    case 'range': {
+      const [min, max] = value as RangeFilterValue;
+      return `${min} – ${max}`;
+    }
+    case 'dateRange': {
+      const { from, to } = value as DateRangeFilterValue;
+      if (from && to) return `${format(from, 'LLL d, y')} – ${format(to, 'LLL d, y')}`;
+      return from ? `from ${format(from, 'LLL d, y')}` : `until ${format(to, 'LLL d, y')}`;
+    }
+    default:
+      return `"${String(value)}"`;
+  }
+};
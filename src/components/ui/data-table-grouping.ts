@@ -0,0 +1,92 @@
+export type AggregateFn = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+/** A built-in aggregation, or a function reducing a column's values to one */
+export type ColumnAggregate<T> = AggregateFn | ((values: unknown[], rows: T[]) => unknown);
+
+export interface RowGroup<T> {
+  /** Unique across nesting levels, e.g. `role:Admin/status:active` */
+  id: string;
+  columnKey: keyof T;
+  value: unknown;
+  depth: number;
+  /** Every row in the group, including those in nested groups */
+  rows: T[];
+  keys: (string | number)[];
+  /** Nested groups, or empty for the innermost grouping level */
+  groups: RowGroup<T>[];
+}
+
+const toNumber = (value: unknown) => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+export const computeAggregate = <T>(rows: T[], key: keyof T, aggregate: ColumnAggregate<T>): unknown => {
+  const values = rows.map(row => row[key] as unknown);
+  if (typeof aggregate === 'function') return aggregate(values, rows);
+  if (aggregate === 'count') return values.filter(value => value != null && value !== '').length;
+
+  // Numeric aggregations skip values that are not numbers
+  const numbers = values.map(toNumber).filter(Number.isFinite);
+  if (numbers.length === 0) return null;
+
+  switch (aggregate) {
+    case 'sum':
+      return numbers.reduce((total, value) => total + value, 0);
+    case 'avg':
+      return numbers.reduce((total, value) => total + value, 0) / numbers.length;
+    case 'min':
+      return numbers.reduce((min, value) => Math.min(min, value));
+    case 'max':
+      return numbers.reduce((max, value) => Math.max(max, value));
+  }
+};
+
+const aggregateFormatter = new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 });
+
+export const formatAggregate = (value: unknown) => {
+  if (value == null) return '';
+  return typeof value === 'number' ? aggregateFormatter.format(value) : String(value);
+};
+
+/** Groups keyed rows by each column in turn. Groups keep the order in which their first row appears. */
+export const groupRows = <T>(
+  entries: [string | number, T][],
+  groupBy: (keyof T)[],
+  parentId = '',
+  depth = 0
+): RowGroup<T>[] => {
+  if (groupBy.length === 0) return [];
+  const [columnKey, ...rest] = groupBy;
+
+  const buckets = new Map<string, { value: unknown; entries: [string | number, T][] }>();
+  entries.forEach(entry => {
+    const value = entry[1][columnKey] as unknown;
+    // Bucket by the string form so dates and numbers that print the same share a group
+    const bucketKey = value == null ? '' : String(value);
+    const bucket = buckets.get(bucketKey);
+    if (bucket) {
+      bucket.entries.push(entry);
+    } else {
+      buckets.set(bucketKey, { value, entries: [entry] });
+    }
+  });
+
+  return Array.from(buckets, ([bucketKey, bucket]) => {
+    const id = `${parentId}${parentId ? '/' : ''}${String(columnKey)}:${bucketKey}`;
+    return {
+      id,
+      columnKey,
+      value: bucket.value,
+      depth,
+      rows: bucket.entries.map(([, row]) => row),
+      keys: bucket.entries.map(([key]) => key),
+      groups: groupRows(bucket.entries, rest, id, depth + 1),
+    };
+  });
+};
+
+/** Row keys in display order: each group's rows together, nested groups in turn */
+export const flattenGroupKeys = <T>(groups: RowGroup<T>[]): (string | number)[] =>
+  groups.flatMap(group => (group.groups.length > 0 ? flattenGroupKeys(group.groups) : group.keys));
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { ChevronsLeft, ChevronsRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { InputField } from '@/components/ui/InputField';
+
+export interface DataTablePaginationOptions {
+  /** Initial rows per page when `pageSize` is not controlled. Defaults to 10. */
+  pageSize?: number;
+  /** Choices for the page-size selector. The selector is hidden when empty. */
+  pageSizeOptions?: number[];
+  /** Show "first page" / "last page" buttons. */
+  showFirstLast?: boolean;
+  /** Show an input to jump straight to a page number. */
+  showPageJump?: boolean;
+  /** Show the "Showing X–Y of Z" summary. */
+  showSummary?: boolean;
+  /** Page links shown on each side of the current page before collapsing into an ellipsis. */
+  siblingCount?: number;
+}
+
+interface DataTablePaginationProps extends DataTablePaginationOptions {
+  pageIndex: number;
+  pageCount: number;
+  rowCount: number;
+  onPageChange: (pageIndex: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+  className?: string;
+}
+
+type PageRangeItem = number | 'start-ellipsis' | 'end-ellipsis';
+
+// Zero-based page indices to render, collapsing gaps into ellipses.
+// Always shows the first and last page plus `siblingCount` pages around the current one.
+const getPageRange = (pageIndex: number, pageCount: number, siblingCount: number): PageRangeItem[] => {
+  // first + last + current + siblings on each side + two ellipses
+  const maxSlots = siblingCount * 2 + 5;
+  if (pageCount <= maxSlots) {
+    return Array.from({ length: pageCount }, (_, i) => i);
+  }
+
+  const lastPage = pageCount - 1;
+  const start = Math.max(1, Math.min(pageIndex - siblingCount, lastPage - siblingCount * 2 - 2));
+  const end = Math.min(lastPage - 1, Math.max(pageIndex + siblingCount, siblingCount * 2 + 2));
+
+  // An ellipsis that would hide a single page shows that page instead
+  const range: PageRangeItem[] = [0];
+  if (start > 2) range.push('start-ellipsis');
+  else if (start === 2) range.push(1);
+  for (let page = start; page <= end; page++) range.push(page);
+  if (end < lastPage - 2) range.push('end-ellipsis');
+  else if (end === lastPage - 2) range.push(lastPage - 1);
+  range.push(lastPage);
+  return range;
+};
+
+const DataTablePagination = ({
+  pageIndex,
+  pageCount,
+  pageSize = 10,
+  rowCount,
+  pageSizeOptions = [],
+  showFirstLast = false,
+  showPageJump = false,
+  showSummary = true,
+  siblingCount = 1,
+  onPageChange,
+  onPageSizeChange,
+  className,
+}: DataTablePaginationProps) => {
+  const [jumpPage, setJumpPage] = useState<number | null>(null);
+
+  const isFirstPage = pageIndex === 0;
+  const isLastPage = pageIndex >= pageCount - 1;
+  const firstRow = rowCount === 0 ? 0 : pageIndex * pageSize + 1;
+  const lastRow = Math.min((pageIndex + 1) * pageSize, rowCount);
+
+  // Links are anchors, so prevent navigation and keep them out of the tab order when disabled
+  const linkProps = (targetPage: number, disabled = false) => ({
+    href: '#',
+    onClick: (e: React.MouseEvent) => {
+      e.preventDefault();
+      if (!disabled) onPageChange(targetPage);
+    },
+    'aria-disabled': disabled || undefined,
+    tabIndex: disabled ? -1 : undefined,
+    className: cn(disabled && 'pointer-events-none opacity-50'),
+  });
+
+  const handleJump = () => {
+    if (jumpPage !== null) {
+      onPageChange(Math.max(0, Math.min(Math.round(jumpPage) - 1, pageCount - 1)));
+    }
+    setJumpPage(null);
+  };
+
+  return (
+    <div
+      className={cn(
+        'flex flex-col gap-3 px-6 py-3 border-t border-border sm:flex-row sm:items-center sm:justify-between',
+        className
+      )}
+    >
+      <div className="flex items-center gap-4 text-sm text-muted-foreground">
+        {showSummary && (
+          <span aria-live="polite">
+            Showing {firstRow}–{lastRow} of {rowCount}
+          </span>
+        )}
+        {pageSizeOptions.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span>Rows per page</span>
+            <Select value={String(pageSize)} onValueChange={value => onPageSizeChange(Number(value))}>
+              <SelectTrigger className="h-8 w-[72px]" aria-label="Rows per page">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pageSizeOptions.map(option => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-4">
+        <Pagination className="mx-0 w-auto">
+          <PaginationContent>
+            {showFirstLast && (
+              <PaginationItem>
+                <PaginationLink aria-label="Go to first page" {...linkProps(0, isFirstPage)}>
+                  <ChevronsLeft className="h-4 w-4" />
+                </PaginationLink>
+              </PaginationItem>
+            )}
+            <PaginationItem>
+              <PaginationPrevious {...linkProps(pageIndex - 1, isFirstPage)} />
+            </PaginationItem>
+            {getPageRange(pageIndex, pageCount, siblingCount).map(item =>
+              typeof item === 'number' ? (
+                <PaginationItem key={item}>
+                  <PaginationLink
+                    isActive={item === pageIndex}
+                    aria-label={`Go to page ${item + 1}`}
+                    {...linkProps(item)}
+                  >
+                    {item + 1}
+                  </PaginationLink>
+                </PaginationItem>
+              ) : (
+                <PaginationItem key={item}>
+                  <PaginationEllipsis />
+                </PaginationItem>
+              )
+            )}
+            <PaginationItem>
+              <PaginationNext {...linkProps(pageIndex + 1, isLastPage)} />
+            </PaginationItem>
+            {showFirstLast && (
+              <PaginationItem>
+                <PaginationLink aria-label="Go to last page" {...linkProps(pageCount - 1, isLastPage)}>
+                  <ChevronsRight className="h-4 w-4" />
+                </PaginationLink>
+              </PaginationItem>
+            )}
+          </PaginationContent>
+        </Pagination>
+
+        {showPageJump && pageCount > 1 && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span>Go to</span>
+            <InputField
+              size="sm"
+              type="number"
+              min={1}
+              max={pageCount}
+              precision={0}
+              steppers={false}
+              value={jumpPage ?? ''}
+              onValueChange={setJumpPage}
+              onKeyDown={e => {
+                // Blurring commits the typed number, jumps and clears the field
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              onBlur={() => jumpPage !== null && handleJump()}
+              aria-label="Jump to page"
+              className="w-16"
+              containerClassName="space-y-0"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export { DataTablePagination };
@@ -0,0 +1,111 @@
+import React from 'react';
+import { MoreHorizontal } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+
+export interface DataTableRowAction<T> {
+  id: string;
+  label: string;
+  icon?: React.ReactNode;
+  /** Keyboard hint shown next to the label. Display only; the table does not bind it. */
+  shortcut?: string;
+  destructive?: boolean;
+  disabled?: boolean;
+  /** Draw a separator above this action. */
+  separator?: boolean;
+  onSelect: (row: T) => void;
+}
+
+interface DataTableRowActionsMenuProps<T> {
+  row: T;
+  actions: DataTableRowAction<T>[];
+  label: string;
+  tabIndex?: number;
+}
+
+const destructiveItemClass = 'text-destructive focus:text-destructive';
+
+// Trailing "…" button with the row's actions
+const DataTableRowActionsMenu = <T,>({ row, actions, label, tabIndex }: DataTableRowActionsMenuProps<T>) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-muted-foreground data-[state=open]:bg-muted"
+        tabIndex={tabIndex}
+        aria-label={label}
+      >
+        <MoreHorizontal />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="w-48">
+      {actions.map(action => (
+        <React.Fragment key={action.id}>
+          {action.separator && <DropdownMenuSeparator />}
+          <DropdownMenuItem
+            disabled={action.disabled}
+            onSelect={() => action.onSelect(row)}
+            className={cn('gap-2', action.destructive && destructiveItemClass)}
+          >
+            {action.icon}
+            {action.label}
+            {action.shortcut && <DropdownMenuShortcut>{action.shortcut}</DropdownMenuShortcut>}
+          </DropdownMenuItem>
+        </React.Fragment>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+interface DataTableRowContextMenuProps<T> {
+  row: T;
+  actions: DataTableRowAction<T>[];
+  /** The row element; it receives the trigger props, so it must accept a ref */
+  children: React.ReactElement;
+}
+
+// Opens the same actions on right-click (or the context menu key) anywhere on the row
+const DataTableRowContextMenu = <T,>({ row, actions, children }: DataTableRowContextMenuProps<T>) => {
+  if (actions.length === 0) return children;
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+      <ContextMenuContent className="w-48">
+        {actions.map(action => (
+          <React.Fragment key={action.id}>
+            {action.separator && <ContextMenuSeparator />}
+            <ContextMenuItem
+              disabled={action.disabled}
+              onSelect={() => action.onSelect(row)}
+              className={cn('gap-2', action.destructive && destructiveItemClass)}
+            >
+              {action.icon}
+              {action.label}
+              {action.shortcut && <ContextMenuShortcut>{action.shortcut}</ContextMenuShortcut>}
+            </ContextMenuItem>
+          </React.Fragment>
+        ))}
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+};
+
+export { DataTableRowActionsMenu, DataTableRowContextMenu };
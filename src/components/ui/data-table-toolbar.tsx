@@ -0,0 +1,312 @@
+import React, { useMemo } from 'react';
+import { Check, PlusCircle, Search, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Column } from '@/components/ui/DataTable';
+import {
+  formatFilterValue,
+  getDistinctOptions,
+  getNumericBounds,
+  isEmptyFilterValue,
+  normalizeColumnFilter,
+  type ColumnFilter,
+  type DataTableFilters,
+  type DateRangeFilterValue,
+  type MultiSelectFilterValue,
+  type RangeFilterValue,
+} from '@/components/ui/data-table-filters';
+import { InputField } from '@/components/ui/InputField';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Slider } from '@/components/ui/slider';
+import { Calendar } from '@/components/ui/calendar';
+
+interface DataTableToolbarProps<T> {
+  data: T[];
+  columns: Column<T>[];
+  filters: DataTableFilters;
+  onFiltersChange: (filters: DataTableFilters) => void;
+  searchable?: boolean;
+  globalFilter: string;
+  onGlobalFilterChange: (globalFilter: string) => void;
+  searchPlaceholder?: string;
+  /** Server-side mode, where `data` only holds the loaded page */
+  manual?: boolean;
+  /** Extra controls rendered at the end of the toolbar */
+  children?: React.ReactNode;
+}
+
+interface FilterEditorProps<T> {
+  column: Column<T>;
+  filter: ColumnFilter<T>;
+  data: T[];
+  manual: boolean;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+const OptionsFilter = <T,>({ column, filter, data, manual, value, onChange }: FilterEditorProps<T>) => {
+  // The loaded page can't stand in for every value on the server, so manual mode only lists `filter.options`
+  const options = useMemo(
+    () => filter.options ?? (manual ? [] : getDistinctOptions(data, column.key)),
+    [filter.options, manual, data, column.key]
+  );
+  const isMulti = filter.type === 'multiSelect';
+  const selected = isMulti ? (value as MultiSelectFilterValue | undefined) ?? [] : value ? [String(value)] : [];
+
+  const toggle = (optionValue: string) => {
+    if (!isMulti) {
+      onChange(selected.includes(optionValue) ? undefined : optionValue);
+      return;
+    }
+    onChange(
+      selected.includes(optionValue)
+        ? selected.filter(item => item !== optionValue)
+        : [...selected, optionValue]
+    );
+  };
+
+  return (
+    <Command>
+      <CommandInput placeholder={filter.placeholder ?? `Search ${column.title.toLowerCase()}...`} />
+      <CommandList>
+        <CommandEmpty>No options found.</CommandEmpty>
+        <CommandGroup>
+          {options.map(option => {
+            const isSelected = selected.includes(option.value);
+            return (
+              <CommandItem key={option.value} value={option.label} onSelect={() => toggle(option.value)}>
+                <div
+                  className={cn(
+                    'mr-2 flex h-4 w-4 items-center justify-center border border-primary',
+                    isMulti ? 'rounded-sm' : 'rounded-full',
+                    isSelected ? 'bg-primary text-primary-foreground' : 'opacity-50 [&_svg]:invisible'
+                  )}
+                >
+                  <Check className="h-3 w-3" />
+                </div>
+                <span>{option.label}</span>
+              </CommandItem>
+            );
+          })}
+        </CommandGroup>
+      </CommandList>
+    </Command>
+  );
+};
+
+const RangeFilter = <T,>({ column, filter, data, manual, value, onChange }: FilterEditorProps<T>) => {
+  // Manual mode only knows the loaded page, so the bounds must come from `filter`
+  const [dataMin, dataMax] = useMemo(
+    () => (manual ? [undefined, undefined] : getNumericBounds(data, column.key)),
+    [manual, data, column.key]
+  );
+  const min = filter.min ?? dataMin;
+  const max = filter.max ?? dataMax;
+
+  if (min === undefined || max === undefined) {
+    return <p className="p-1 text-sm text-muted-foreground">No range available.</p>;
+  }
+
+  const range = (value as RangeFilterValue | undefined) ?? [min, max];
+
+  return (
+    <div className="space-y-4 p-1">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">{column.title}</span>
+        <span className="text-muted-foreground tabular-nums">
+          {range[0]} – {range[1]}
+        </span>
+      </div>
+      <Slider
+        min={min}
+        max={max}
+        step={filter.step ?? 1}
+        value={range}
+        // A range covering every value is the same as no filter
+        onValueChange={([from, to]) => onChange(from === min && to === max ? undefined : [from, to])}
+        aria-label={`${column.title} range`}
+      />
+    </div>
+  );
+};
+
+const DateRangeFilter = <T,>({ value, onChange }: FilterEditorProps<T>) => (
+  <Calendar
+    mode="range"
+    selected={value as DateRangeFilterValue | undefined}
+    onSelect={range => onChange(range)}
+    numberOfMonths={1}
+    initialFocus
+  />
+);
+
+const TextFilter = <T,>({ column, filter, value, onChange }: FilterEditorProps<T>) => (
+  <InputField
+    size="sm"
+    label={column.title}
+    placeholder={filter.placeholder ?? 'Contains...'}
+    value={(value as string | undefined) ?? ''}
+    onChange={e => onChange(e.target.value)}
+    clearable
+    onClear={() => onChange(undefined)}
+    autoFocus
+  />
+);
+
+const filterEditors = {
+  text: TextFilter,
+  select: OptionsFilter,
+  multiSelect: OptionsFilter,
+  range: RangeFilter,
+  dateRange: DateRangeFilter,
+};
+
+const DataTableToolbar = <T,>({
+  data,
+  columns,
+  filters,
+  onFiltersChange,
+  searchable = false,
+  globalFilter,
+  onGlobalFilterChange,
+  searchPlaceholder = 'Search...',
+  manual = false,
+  children,
+}: DataTableToolbarProps<T>) => {
+  const filterableColumns = columns
+    .map(column => ({ column, filter: normalizeColumnFilter(column.filter) }))
+    .filter(({ filter }) => filter);
+
+  const activeFilters = filterableColumns.filter(
+    ({ column }) => !isEmptyFilterValue(filters[String(column.key)])
+  );
+
+  const setFilter = (key: keyof T, value: unknown) => {
+    const next = { ...filters };
+    if (isEmptyFilterValue(value)) {
+      delete next[String(key)];
+    } else {
+      next[String(key)] = value;
+    }
+    onFiltersChange(next);
+  };
+
+  const clearAll = () => {
+    const next = { ...filters };
+    filterableColumns.forEach(({ column }) => delete next[String(column.key)]);
+    onFiltersChange(next);
+  };
+
+  return (
+    <div className="space-y-3 px-6 py-4 border-b border-border">
+      <div className="flex flex-wrap items-center gap-2">
+        {searchable && (
+          <InputField
+            size="sm"
+            placeholder={searchPlaceholder}
+            value={globalFilter}
+            onChange={e => onGlobalFilterChange(e.target.value)}
+            startAdornment={<Search />}
+            clearable
+            onClear={() => onGlobalFilterChange('')}
+            aria-label="Search all columns"
+            containerClassName="w-full sm:w-64 space-y-0"
+          />
+        )}
+
+        {filterableColumns.map(({ column, filter }) => {
+          const key = String(column.key);
+          const value = filters[key];
+          const isActive = !isEmptyFilterValue(value);
+          const Editor = filterEditors[filter.type];
+
+          return (
+            <Popover key={key}>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={cn('h-9 border-dashed', isActive && 'border-solid border-primary/50')}
+                >
+                  <PlusCircle />
+                  {column.title}
+                  {isActive && filter.type === 'multiSelect' && (
+                    <Badge variant="secondary" className="ml-1 rounded-sm px-1 font-normal">
+                      {(value as MultiSelectFilterValue).length}
+                    </Badge>
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent
+                align="start"
+                className={cn(
+                  filter.type === 'select' || filter.type === 'multiSelect' ? 'w-56 p-0' : 'w-auto min-w-64'
+                )}
+              >
+                <Editor
+                  column={column}
+                  filter={filter}
+                  data={data}
+                  manual={manual}
+                  value={value}
+                  onChange={next => setFilter(column.key, next)}
+                />
+                {isActive && (
+                  <div className="border-t border-border p-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => setFilter(column.key, undefined)}
+                    >
+                      Clear filter
+                    </Button>
+                  </div>
+                )}
+              </PopoverContent>
+            </Popover>
+          );
+        })}
+
+        {children && <div className="ml-auto flex items-center gap-2">{children}</div>}
+      </div>
+
+      {activeFilters.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2" aria-label="Active filters">
+          {activeFilters.map(({ column, filter }) => (
+            <Badge key={String(column.key)} variant="secondary" className="gap-1 pr-1 font-normal">
+              <span className="font-medium">{column.title}:</span>
+              <span>{formatFilterValue(filters[String(column.key)], filter)}</span>
+              <button
+                type="button"
+                onClick={() => setFilter(column.key, undefined)}
+                className="ml-1 rounded-full p-0.5 hover:bg-muted-foreground/20 focus-ring"
+                aria-label={`Remove ${column.title} filter`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <button
+            type="button"
+            onClick={clearAll}
+            className="text-xs text-primary hover:text-primary-hover transition-colors-smooth underline"
+          >
+            Clear all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { DataTableToolbar };
@@ -0,0 +1,67 @@
+/** A row's place in tree data. `childKeys` are already filtered and sorted. */
+export interface TreeNode<T> {
+  row: T;
+  depth: number;
+  parentKey?: string | number;
+  childKeys: (string | number)[];
+}
+
+export type TreeIndex<T> = Map<string | number, TreeNode<T>>;
+
+export const getDescendantKeys = <T>(tree: TreeIndex<T>, key: string | number): (string | number)[] => {
+  const keys: (string | number)[] = [];
+  const visit = (parentKey: string | number) => {
+    tree.get(parentKey)?.childKeys.forEach(childKey => {
+      keys.push(childKey);
+      visit(childKey);
+    });
+  };
+  visit(key);
+  return keys;
+};
+
+/**
+ * Selects or deselects a row together with all of its selectable descendants, then
+ * walks up the tree so each ancestor is selected exactly when all of its children are.
+ */
+export const cascadeSelection = <T>(
+  tree: TreeIndex<T>,
+  selected: Set<string | number>,
+  key: string | number,
+  checked: boolean,
+  canSelect: (row: T) => boolean = () => true
+): Set<string | number> => {
+  const next = new Set(selected);
+  const apply = (itemKey: string | number, itemChecked: boolean) => {
+    if (itemChecked) {
+      next.add(itemKey);
+    } else {
+      next.delete(itemKey);
+    }
+  };
+
+  apply(key, checked);
+  getDescendantKeys(tree, key)
+    .filter(descendantKey => canSelect(tree.get(descendantKey).row))
+    .forEach(descendantKey => apply(descendantKey, checked));
+
+  let parentKey = tree.get(key)?.parentKey;
+  while (parentKey !== undefined) {
+    const parent = tree.get(parentKey);
+    if (canSelect(parent.row)) {
+      apply(
+        parentKey,
+        parent.childKeys.every(childKey => next.has(childKey) || !canSelect(tree.get(childKey).row))
+      );
+    }
+    parentKey = parent.parentKey;
+  }
+  return next;
+};
+
+/** A row that is not selected itself but has selected descendants */
+export const isPartiallySelectedNode = <T>(
+  tree: TreeIndex<T>,
+  isSelected: (key: string | number) => boolean,
+  key: string | number
+) => !isSelected(key) && getDescendantKeys(tree, key).some(isSelected);
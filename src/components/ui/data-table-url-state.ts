@@ -0,0 +1,174 @@
+import { format, isValid, parseISO } from 'date-fns';
+import type { Column, SortConfig } from '@/components/ui/DataTable';
+import {
+  isEmptyFilterValue,
+  normalizeColumnFilter,
+  type DataTableFilters,
+  type DateRangeFilterValue,
+  type RangeFilterValue,
+} from '@/components/ui/data-table-filters';
+
+/** The parts of a table view that can be shared as a link */
+export interface DataTableUrlState<T> {
+  sortStack: SortConfig<T>[];
+  pageIndex: number;
+  pageSize: number;
+  filters: DataTableFilters;
+  globalFilter: string;
+  hiddenColumns: string[];
+}
+
+/** Values left out of the URL, so the default view keeps a clean link */
+export interface DataTableUrlDefaults<T> {
+  sortStack: SortConfig<T>[];
+  pageSize: number;
+}
+
+/*
+ * Params, each with the optional prefix:
+ *   sort=name&sort=-email  sorts in priority order, `-` for descending; `sort=` for no sort
+ *   page=3&size=25         1-based page; size only when it differs from the default
+ *   q=smith                global search
+ *   f.<key>=...            column filters. multiSelect repeats the param, range is `10..50`
+ *                          and dateRange `2024-01-01..2024-01-31` (either end optional)
+ *   hide=email&hide=role   hidden columns
+ */
+const RANGE_SEPARATOR = '..';
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+const param = (prefix: string, name: string) => `${prefix}${name}`;
+const filterParam = (prefix: string, key: string) => `${prefix}f.${key}`;
+
+const encodeSort = <T>(sortStack: SortConfig<T>[]) =>
+  sortStack
+    .filter(sort => sort.direction)
+    .map(sort => `${sort.direction === 'desc' ? '-' : ''}${String(sort.key)}`);
+
+const parseDate = (value: string) => {
+  if (!value) return undefined;
+  const date = parseISO(value);
+  return isValid(date) ? date : undefined;
+};
+
+const encodeFilter = <T>(value: unknown, column: Column<T>): string[] => {
+  switch (normalizeColumnFilter(column.filter)?.type) {
+    case 'multiSelect':
+      return (value as string[]).map(String);
+    case 'range': {
+      const [min, max] = value as RangeFilterValue;
+      return [`${min}${RANGE_SEPARATOR}${max}`];
+    }
+    case 'dateRange': {
+      const { from, to } = value as DateRangeFilterValue;
+      const formatDate = (date: Date | undefined) => (date ? format(date, DATE_FORMAT) : '');
+      return [`${formatDate(from)}${RANGE_SEPARATOR}${formatDate(to)}`];
+    }
+    default:
+      return [String(value)];
+  }
+};
+
+// Malformed values from hand-edited links are dropped rather than applied
+const decodeFilter = <T>(values: string[], column: Column<T>): unknown => {
+  switch (normalizeColumnFilter(column.filter)?.type) {
+    case 'multiSelect':
+      return values;
+    case 'range': {
+      const [min, max] = values[0].split(RANGE_SEPARATOR).map(Number);
+      return Number.isFinite(min) && Number.isFinite(max) ? [min, max] : undefined;
+    }
+    case 'dateRange': {
+      const [from, to] = values[0].split(RANGE_SEPARATOR);
+      const range = { from: parseDate(from), to: parseDate(to) };
+      return range.from || range.to ? range : undefined;
+    }
+    default:
+      return values[0];
+  }
+};
+
+/** Reads a table view from search params, ignoring keys that do not match a column */
+export const parseTableState = <T>(
+  params: URLSearchParams,
+  columns: Column<T>[],
+  defaults: DataTableUrlDefaults<T>,
+  prefix = ''
+): DataTableUrlState<T> => {
+  const columnByKey = new Map(columns.map(column => [String(column.key), column]));
+
+  const sortParam = param(prefix, 'sort');
+  const sortStack = params.has(sortParam)
+    ? params
+        .getAll(sortParam)
+        .filter(Boolean)
+        .map(value => {
+          const descending = value.startsWith('-');
+          return { key: descending ? value.slice(1) : value, direction: descending ? 'desc' : 'asc' } as const;
+        })
+        .filter(sort => columnByKey.has(sort.key))
+        .map(sort => ({ key: columnByKey.get(sort.key).key, direction: sort.direction }))
+    : defaults.sortStack;
+
+  const page = Number(params.get(param(prefix, 'page')));
+  const size = Number(params.get(param(prefix, 'size')));
+
+  const filters: DataTableFilters = {};
+  columns.forEach(column => {
+    const values = params.getAll(filterParam(prefix, String(column.key)));
+    if (!column.filter || values.length === 0) return;
+    const value = decodeFilter(values, column);
+    if (!isEmptyFilterValue(value)) filters[String(column.key)] = value;
+  });
+
+  return {
+    sortStack,
+    pageIndex: Number.isInteger(page) && page > 1 ? page - 1 : 0,
+    pageSize: Number.isInteger(size) && size > 0 ? size : defaults.pageSize,
+    filters,
+    globalFilter: params.get(param(prefix, 'q')) ?? '',
+    hiddenColumns: params.getAll(param(prefix, 'hide')).filter(key => columnByKey.has(key)),
+  };
+};
+
+/**
+ * Writes the given parts of a table view into `params` in place. Parts that are left
+ * out keep their current params; other params in the URL are never touched.
+ */
+export const writeTableState = <T>(
+  params: URLSearchParams,
+  state: Partial<DataTableUrlState<T>>,
+  columns: Column<T>[],
+  defaults: DataTableUrlDefaults<T>,
+  prefix = ''
+) => {
+  const setAll = (name: string, values: string[]) => {
+    params.delete(name);
+    values.forEach(value => params.append(name, value));
+  };
+
+  if (state.sortStack) {
+    const sorts = encodeSort(state.sortStack);
+    const isDefault = sorts.join() === encodeSort(defaults.sortStack).join();
+    // An empty `sort=` tells "no sort" apart from the default sort
+    setAll(param(prefix, 'sort'), isDefault ? [] : sorts.length > 0 ? sorts : ['']);
+  }
+  if (state.pageIndex !== undefined) {
+    setAll(param(prefix, 'page'), state.pageIndex > 0 ? [String(state.pageIndex + 1)] : []);
+  }
+  if (state.pageSize !== undefined) {
+    setAll(param(prefix, 'size'), state.pageSize !== defaults.pageSize ? [String(state.pageSize)] : []);
+  }
+  if (state.filters) {
+    columns.forEach(column => {
+      if (!column.filter) return;
+      const value = state.filters[String(column.key)];
+      setAll(filterParam(prefix, String(column.key)), isEmptyFilterValue(value) ? [] : encodeFilter(value, column));
+    });
+  }
+  if (state.globalFilter !== undefined) {
+    setAll(param(prefix, 'q'), state.globalFilter.trim() ? [state.globalFilter] : []);
+  }
+  if (state.hiddenColumns) {
+    setAll(param(prefix, 'hide'), state.hiddenColumns);
+  }
+};
@@ -0,0 +1,349 @@
+import React, { useState } from 'react';
+import {
+  Bookmark,
+  Check,
+  ChevronDown,
+  Copy,
+  FileInput,
+  Pencil,
+  Plus,
+  Save,
+  Star,
+  StarOff,
+  Trash2,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button, buttonVariants } from '@/components/ui/button';
+import { InputField } from '@/components/ui/InputField';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { parseSharedView, serializeSharedView, type DataTableView } from '@/components/ui/data-table-views';
+import { toast } from '@/hooks/use-toast';
+
+interface DataTableViewsMenuProps {
+  views: DataTableView[];
+  activeView: DataTableView | null;
+  defaultViewId: string | null;
+  /** The table no longer matches the active view */
+  modified: boolean;
+  onApply: (view: DataTableView) => void;
+  /** Save the current table as a new view */
+  onSave: (name: string) => void;
+  /** Overwrite the active view with the current table */
+  onUpdate: (view: DataTableView) => void;
+  onRename: (view: DataTableView, name: string) => void;
+  onDelete: (view: DataTableView) => void;
+  onSetDefault: (view: DataTableView | null) => void;
+  onImport: (view: Omit<DataTableView, 'id'>) => void;
+}
+
+type ViewDialog =
+  | { type: 'save' }
+  | { type: 'rename'; view: DataTableView }
+  | { type: 'import' }
+  | { type: 'delete'; view: DataTableView };
+
+interface ViewNameDialogProps {
+  title: string;
+  submitLabel: string;
+  initialName: string;
+  /** Names already taken, compared case-insensitively */
+  takenNames: string[];
+  onSubmit: (name: string) => void;
+  onClose: () => void;
+}
+
+const ViewNameDialog = ({ title, submitLabel, initialName, takenNames, onSubmit, onClose }: ViewNameDialogProps) => {
+  const [name, setName] = useState(initialName);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError('Enter a name for the view');
+    } else if (takenNames.some(taken => taken.toLowerCase() === trimmed.toLowerCase())) {
+      setError('A view with this name already exists');
+    } else {
+      onSubmit(trimmed);
+      onClose();
+    }
+  };
+
+  return (
+    <DialogContent className="sm:max-w-md">
+      <form onSubmit={submit} className="space-y-4">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Views keep the sort, filters, search and column layout.</DialogDescription>
+        </DialogHeader>
+        <InputField
+          label="Name"
+          value={name}
+          onChange={e => {
+            setName(e.target.value);
+            setError(null);
+          }}
+          placeholder="e.g. My pending editors"
+          invalid={!!error}
+          errorMessage={error ?? undefined}
+          autoFocus
+        />
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit">{submitLabel}</Button>
+        </DialogFooter>
+      </form>
+    </DialogContent>
+  );
+};
+
+interface ImportViewDialogProps {
+  onImport: (view: Omit<DataTableView, 'id'>) => void;
+  onClose: () => void;
+}
+
+const ImportViewDialog = ({ onImport, onClose }: ImportViewDialogProps) => {
+  const [json, setJson] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onImport(parseSharedView(json));
+      onClose();
+    } catch (parseError) {
+      setError((parseError as Error).message);
+    }
+  };
+
+  return (
+    <DialogContent className="sm:max-w-lg">
+      <form onSubmit={submit} className="space-y-4">
+        <DialogHeader>
+          <DialogTitle>Import view</DialogTitle>
+          <DialogDescription>Paste a view copied with "Copy as JSON".</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="data-table-view-json">View JSON</Label>
+          <Textarea
+            id="data-table-view-json"
+            value={json}
+            onChange={e => {
+              setJson(e.target.value);
+              setError(null);
+            }}
+            rows={8}
+            className={cn('font-mono text-xs', error && 'border-destructive focus-visible:ring-destructive')}
+            aria-invalid={!!error}
+            aria-describedby={error ? 'data-table-view-json-error' : undefined}
+            autoFocus
+          />
+          {error && (
+            <p id="data-table-view-json-error" className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={!json.trim()}>
+            Import
+          </Button>
+        </DialogFooter>
+      </form>
+    </DialogContent>
+  );
+};
+
+const copyView = async (view: DataTableView) => {
+  try {
+    await navigator.clipboard.writeText(serializeSharedView(view));
+    toast({ title: 'View copied', description: 'Import it from the Views menu of the same table.' });
+  } catch {
+    toast({ variant: 'destructive', title: "Couldn't copy the view", description: 'Clipboard access was denied.' });
+  }
+};
+
+// Toolbar menu for switching between, saving and sharing named views
+const DataTableViewsMenu = ({
+  views,
+  activeView,
+  defaultViewId,
+  modified,
+  onApply,
+  onSave,
+  onUpdate,
+  onRename,
+  onDelete,
+  onSetDefault,
+  onImport,
+}: DataTableViewsMenuProps) => {
+  const [dialog, setDialog] = useState<ViewDialog | null>(null);
+  const closeDialog = () => setDialog(null);
+  const viewNames = views.map(view => view.name);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-9 max-w-56">
+            <Bookmark />
+            <span className="truncate">{activeView?.name ?? 'Views'}</span>
+            {modified && (
+              <>
+                <span className="h-1.5 w-1.5 shrink-0 rounded-full bg-primary" aria-hidden="true" />
+                <span className="sr-only">(modified)</span>
+              </>
+            )}
+            <ChevronDown className="text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+          {views.length === 0 && (
+            <DropdownMenuItem disabled className="text-muted-foreground">
+              No saved views yet
+            </DropdownMenuItem>
+          )}
+          {views.map(view => (
+            <DropdownMenuItem key={view.id} onSelect={() => onApply(view)} className="gap-2">
+              <Check className={cn(view.id === activeView?.id ? 'opacity-100' : 'opacity-0')} />
+              <span className="flex-1 truncate">{view.name}</span>
+              {view.id === defaultViewId && (
+                <Star className="fill-current text-muted-foreground" aria-label="Default view" />
+              )}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setDialog({ type: 'save' })} className="gap-2">
+            <Plus />
+            Save as new view…
+          </DropdownMenuItem>
+          {activeView && (
+            <>
+              <DropdownMenuItem disabled={!modified} onSelect={() => onUpdate(activeView)} className="gap-2">
+                <Save />
+                <span className="truncate">Save changes to "{activeView.name}"</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setDialog({ type: 'rename', view: activeView })} className="gap-2">
+                <Pencil />
+                Rename…
+              </DropdownMenuItem>
+              {activeView.id === defaultViewId ? (
+                <DropdownMenuItem onSelect={() => onSetDefault(null)} className="gap-2">
+                  <StarOff />
+                  Remove as default
+                </DropdownMenuItem>
+              ) : (
+                <DropdownMenuItem onSelect={() => onSetDefault(activeView)} className="gap-2">
+                  <Star />
+                  Set as default
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onSelect={() => copyView(activeView)} className="gap-2">
+                <Copy />
+                Copy as JSON
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuItem onSelect={() => setDialog({ type: 'import' })} className="gap-2">
+            <FileInput />
+            Import from JSON…
+          </DropdownMenuItem>
+          {activeView && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onSelect={() => setDialog({ type: 'delete', view: activeView })}
+                className="gap-2 text-destructive focus:text-destructive"
+              >
+                <Trash2 />
+                Delete view…
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={dialog?.type === 'save' || dialog?.type === 'rename' || dialog?.type === 'import'}
+        onOpenChange={open => !open && closeDialog()}
+      >
+        {dialog?.type === 'save' && (
+          <ViewNameDialog
+            title="Save view"
+            submitLabel="Save"
+            initialName=""
+            takenNames={viewNames}
+            onSubmit={onSave}
+            onClose={closeDialog}
+          />
+        )}
+        {dialog?.type === 'rename' && (
+          <ViewNameDialog
+            title="Rename view"
+            submitLabel="Rename"
+            initialName={dialog.view.name}
+            takenNames={viewNames.filter(name => name !== dialog.view.name)}
+            onSubmit={name => onRename(dialog.view, name)}
+            onClose={closeDialog}
+          />
+        )}
+        {dialog?.type === 'import' && <ImportViewDialog onImport={onImport} onClose={closeDialog} />}
+      </Dialog>
+
+      <AlertDialog open={dialog?.type === 'delete'} onOpenChange={open => !open && closeDialog()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{dialog?.type === 'delete' && dialog.view.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This cannot be undone. The table keeps its current sort, filters and columns.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={buttonVariants({ variant: 'destructive' })}
+              onClick={() => dialog?.type === 'delete' && onDelete(dialog.view)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export { DataTableViewsMenu };
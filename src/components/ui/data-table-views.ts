@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import type { Column, SortDirection } from '@/components/ui/DataTable';
+import { EMPTY_COLUMN_LAYOUT, type DataTableColumnLayout } from '@/components/ui/data-table-columns';
+import { normalizeColumnFilter, type DataTableFilters } from '@/components/ui/data-table-filters';
+
+/** Everything a saved view restores. Plain JSON so it can be stored or shared as-is. */
+export interface DataTableViewState {
+  sortStack: { key: string; direction: SortDirection }[];
+  filters: DataTableFilters;
+  globalFilter: string;
+  columnLayout: DataTableColumnLayout;
+}
+
+export interface DataTableView {
+  id: string;
+  name: string;
+  state: DataTableViewState;
+}
+
+export interface DataTableViewStore {
+  views: DataTableView[];
+  /** View applied when the table first loads */
+  defaultViewId: string | null;
+}
+
+/**
+ * Where saved views are kept. Either method may be async, e.g. to store views per user
+ * on a backend; a rejected save is reported and the views are kept for the session.
+ */
+export interface DataTableViewStorage {
+  load: (storageKey: string) => DataTableViewStore | null | Promise<DataTableViewStore | null>;
+  save: (storageKey: string, store: DataTableViewStore) => void | Promise<void>;
+}
+
+export interface DataTableViewsConfig {
+  /** Key the views are stored under, unique per table. */
+  storageKey: string;
+  /** Defaults to localStorage. Keep it stable between renders. */
+  storage?: DataTableViewStorage;
+}
+
+export const EMPTY_VIEW_STORE: DataTableViewStore = { views: [], defaultViewId: null };
+
+const viewStateSchema = z.object({
+  sortStack: z
+    .array(z.object({ key: z.string(), direction: z.enum(['asc', 'desc']).nullable() }))
+    .default([]),
+  filters: z.record(z.unknown()).default({}),
+  globalFilter: z.string().default(''),
+  columnLayout: z
+    .object({
+      order: z.array(z.string()).default([]),
+      hidden: z.array(z.string()).default([]),
+      widths: z.record(z.number()).default({}),
+      pinned: z.record(z.enum(['left', 'right']).nullable()).default({}),
+    })
+    .default(EMPTY_COLUMN_LAYOUT),
+});
+
+const sharedViewSchema = z.object({
+  name: z.string().trim().min(1, 'The view needs a name'),
+  state: viewStateSchema,
+});
+
+const viewStoreSchema = z.object({
+  views: z.array(sharedViewSchema.extend({ id: z.string() })).default([]),
+  defaultViewId: z.string().nullable().default(null),
+});
+
+export const createViewId = () => `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Validates a stored view collection, falling back to no views when it is unreadable */
+export const parseViewStore = (stored: unknown): DataTableViewStore => {
+  const result = viewStoreSchema.safeParse(stored ?? EMPTY_VIEW_STORE);
+  return result.success ? (result.data as DataTableViewStore) : EMPTY_VIEW_STORE;
+};
+
+/** The JSON handed out by "Copy as JSON" */
+export const serializeSharedView = (view: DataTableView) =>
+  JSON.stringify({ name: view.name, state: view.state }, null, 2);
+
+/** Parses a shared view, throwing an error that explains what is wrong with it */
+export const parseSharedView = (json: string): Omit<DataTableView, 'id'> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('This is not valid JSON');
+  }
+  const result = sharedViewSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+  }
+  return result.data as Omit<DataTableView, 'id'>;
+};
+
+/** `name`, or `name (2)`, `name (3)`... when it is already taken */
+export const getUniqueViewName = (name: string, takenNames: string[]) => {
+  const taken = new Set(takenNames.map(taken => taken.toLowerCase()));
+  let candidate = name;
+  for (let copy = 2; taken.has(candidate.toLowerCase()); copy++) {
+    candidate = `${name} (${copy})`;
+  }
+  return candidate;
+};
+
+/** Whether two view states would show the same table */
+export const isSameViewState = (a: DataTableViewState, b: DataTableViewState) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Fits a stored view to the current columns: sorts and filters on columns that no longer
+ * exist are dropped, and date range filters get their dates back after the JSON round trip.
+ */
+export const reviveViewState = <T>(state: DataTableViewState, columns: Column<T>[]) => {
+  const columnByKey = new Map(columns.map(column => [String(column.key), column]));
+
+  const filters: DataTableFilters = {};
+  Object.entries(state.filters).forEach(([key, value]) => {
+    const column = columnByKey.get(key);
+    if (!column) return;
+    if (normalizeColumnFilter(column.filter)?.type === 'dateRange' && value && typeof value === 'object') {
+      const { from, to } = value as { from?: string | Date; to?: string | Date };
+      filters[key] = { from: from ? new Date(from) : undefined, to: to ? new Date(to) : undefined };
+    } else {
+      filters[key] = value;
+    }
+  });
+
+  return {
+    sortStack: state.sortStack
+      .filter(sort => columnByKey.has(sort.key))
+      .map(sort => ({ key: columnByKey.get(sort.key).key, direction: sort.direction })),
+    filters,
+    globalFilter: state.globalFilter,
+    columnLayout: { ...EMPTY_COLUMN_LAYOUT, ...state.columnLayout },
+  };
+};
+
+export const localStorageViewStorage: DataTableViewStorage = {
+  load: storageKey => {
+    try {
+      const stored = window.localStorage.getItem(storageKey);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      // Unavailable storage or corrupt JSON starts without saved views
+      return null;
+    }
+  },
+  save: (storageKey, store) => {
+    window.localStorage.setItem(storageKey, JSON.stringify(store));
+  },
+};
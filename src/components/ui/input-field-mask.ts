@@ -0,0 +1,129 @@
+/** One character slot of a mask: what it accepts and how an accepted character is stored */
+export interface MaskToken {
+  pattern: RegExp;
+  transform?: (char: string) => string;
+}
+
+export type MaskTokens = Record<string, MaskToken>;
+
+export interface InputMaskOptions {
+  /**
+   * Token characters are slots for user input and everything else is inserted as typed;
+   * escape a token character with `\\` to use it literally. A function picks the pattern
+   * from the letters and digits typed so far, e.g. to switch card number layouts.
+   */
+  pattern: string | ((input: string) => string);
+  /** Extra or replacement tokens, merged over the defaults. */
+  tokens?: MaskTokens;
+}
+
+/** A pattern string such as `(999) 999-9999`, or options with custom tokens */
+export type InputMask = string | InputMaskOptions;
+
+export interface MaskedValue {
+  /** The value as displayed, literals included */
+  masked: string;
+  /** Only the characters typed into token slots */
+  unmasked: string;
+  /** Every token slot of the pattern is filled */
+  complete: boolean;
+}
+
+/** `9` digit, `a` letter, `*` letter or digit; `A` and `#` are their upper-casing variants */
+export const DEFAULT_MASK_TOKENS: MaskTokens = {
+  '9': { pattern: /\d/ },
+  a: { pattern: /\p{L}/u },
+  '*': { pattern: /[\p{L}\d]/u },
+  A: { pattern: /\p{L}/u, transform: char => char.toUpperCase() },
+  '#': { pattern: /[\p{L}\d]/u, transform: char => char.toUpperCase() },
+};
+
+/** Common masks. Postal codes accept ZIP or ZIP+4. */
+export const inputMasks = {
+  phone: '(999) 999-9999',
+  creditCard: {
+    // American Express numbers are 15 digits grouped 4-6-5
+    pattern: (input: string) => (/^3[47]/.test(input) ? '9999 999999 99999' : '9999 9999 9999 9999'),
+  },
+  iban: 'AA99 #### #### #### #### #### #### ##',
+  postalCode: '99999-9999',
+  date: '99/99/9999',
+} satisfies Record<string, InputMask>;
+
+type MaskSlot = { type: 'token'; token: MaskToken } | { type: 'literal'; char: string };
+
+const resolveSlots = (mask: InputMask, input: string): MaskSlot[] => {
+  const { pattern, tokens } = typeof mask === 'string' ? { pattern: mask, tokens: undefined } : mask;
+  const allTokens = { ...DEFAULT_MASK_TOKENS, ...tokens };
+  const source = typeof pattern === 'function' ? pattern(input.replace(/[^\p{L}\d]/gu, '')) : pattern;
+
+  const slots: MaskSlot[] = [];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\\' && i + 1 < source.length) {
+      slots.push({ type: 'literal', char: source[++i] });
+    } else if (allTokens[source[i]]) {
+      slots.push({ type: 'token', token: allTokens[source[i]] });
+    } else {
+      slots.push({ type: 'literal', char: source[i] });
+    }
+  }
+  return slots;
+};
+
+/**
+ * Formats input against a mask. Characters a slot does not accept are dropped, literals
+ * are inserted before the next accepted character (or kept where the input already has
+ * them) and literals after the last filled slot are left off, so deleting never gets
+ * stuck on them.
+ */
+export const applyMask = (input: string, mask: InputMask): MaskedValue => {
+  const slots = resolveSlots(mask, input);
+  let masked = '';
+  let unmasked = '';
+  // Length of `masked` up to and including the last filled token slot
+  let filledLength = 0;
+  let slotIndex = 0;
+
+  for (let i = 0; i < input.length && slotIndex < slots.length; ) {
+    const char = input[i];
+    const slot = slots[slotIndex];
+    if (slot.type === 'literal') {
+      masked += slot.char;
+      slotIndex++;
+      if (char === slot.char) i++;
+    } else if (slot.token.pattern.test(char)) {
+      const stored = slot.token.transform ? slot.token.transform(char) : char;
+      masked += stored;
+      unmasked += stored;
+      filledLength = masked.length;
+      slotIndex++;
+      i++;
+    } else {
+      i++;
+    }
+  }
+
+  return {
+    masked: masked.slice(0, filledLength),
+    unmasked,
+    complete: slots.every((slot, index) => slot.type === 'literal' || index < slotIndex),
+  };
+};
+
+/** Position in `masked` right after its `count`-th unmasked character */
+export const getMaskedCaret = (masked: MaskedValue, count: number, mask: InputMask) => {
+  if (count <= 0) return 0;
+  const slots = resolveSlots(mask, masked.masked);
+  let seen = 0;
+  for (let position = 0; position < masked.masked.length; position++) {
+    if (slots[position]?.type === 'token') seen++;
+    if (seen === count) return position + 1;
+  }
+  return masked.masked.length;
+};
+
+/** `numeric` for masks that only take digits, so phones show a number pad */
+export const getMaskInputMode = (mask: InputMask): 'numeric' | undefined =>
+  resolveSlots(mask, '').every(slot => slot.type === 'literal' || slot.token === DEFAULT_MASK_TOKENS['9'])
+    ? 'numeric'
+    : undefined;
@@ -0,0 +1,108 @@
+export interface NumberInputFormat {
+  /** BCP 47 locale used to display and to read typed numbers. Defaults to the browser's. */
+  locale?: string;
+  /** `Intl.NumberFormat` options for the blurred display, e.g. `{ style: 'currency', currency: 'EUR' }`. */
+  formatOptions?: Intl.NumberFormatOptions;
+  /**
+   * Decimal places values are rounded to and displayed with, counted in displayed units
+   * (25.5% has one). Defaults to the currency's minor units, otherwise no rounding.
+   */
+  precision?: number;
+}
+
+// Percent values are fractions (0.25) shown and typed as whole percentages (25)
+export const getNumberScale = ({ formatOptions }: NumberInputFormat) =>
+  formatOptions?.style === 'percent' ? 100 : 1;
+
+// Without a precision, enough digits for any typed value while hiding floating point noise
+const MAX_FRACTION_DIGITS = 12;
+
+export const getNumberSeparators = (locale?: string) => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(1234567.5);
+  return {
+    group: parts.find(part => part.type === 'group')?.value ?? ',',
+    decimal: parts.find(part => part.type === 'decimal')?.value ?? '.',
+  };
+};
+
+export const resolvePrecision = ({ locale, formatOptions, precision }: NumberInputFormat) => {
+  if (precision !== undefined) return precision;
+  if (formatOptions?.style !== 'currency') return undefined;
+  return new Intl.NumberFormat(locale, formatOptions).resolvedOptions().maximumFractionDigits;
+};
+
+// Shifts through the exponent rather than multiplying, so 1.005 rounds to 1.01
+export const roundNumber = (value: number, decimals: number | undefined) => {
+  if (decimals === undefined) return value;
+  const rounded = Number(`${Math.round(Number(`${value}e${decimals}`))}e-${decimals}`);
+  return Number.isNaN(rounded) ? Math.round(value * 10 ** decimals) / 10 ** decimals : rounded;
+};
+
+/** Rounds to the format's precision, in displayed units */
+export const roundToFormat = (value: number, format: NumberInputFormat) => {
+  const scale = getNumberScale(format);
+  return roundNumber(value * scale, resolvePrecision(format)) / scale;
+};
+
+/**
+ * A controlled `value` as a number: empty strings are null, and strings are read for the
+ * format's locale like typed input when a format is given, e.g. text kept from `onChange`.
+ */
+export const toNumberValue = (value: unknown, format?: NumberInputFormat) => {
+  if (value == null || value === '') return null;
+  let number: number;
+  if (typeof value === 'number') number = value;
+  else if (format) number = parseNumberInput(String(value), format) ?? NaN;
+  else number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+export const clampNumber = (value: number, min: number | undefined, max: number | undefined) =>
+  Math.min(max ?? Infinity, Math.max(min ?? -Infinity, value));
+
+export const countDecimals = (value: number) => {
+  const [, decimals = ''] = String(value).split('.');
+  return decimals.length;
+};
+
+/** The blurred display, e.g. `€1,234.50` */
+export const formatNumberDisplay = (value: number | null, format: NumberInputFormat) => {
+  if (value === null) return '';
+  const precision = resolvePrecision(format);
+  return new Intl.NumberFormat(format.locale, {
+    maximumFractionDigits: MAX_FRACTION_DIGITS,
+    ...format.formatOptions,
+    ...(precision !== undefined && { minimumFractionDigits: precision, maximumFractionDigits: precision }),
+  }).format(value);
+};
+
+/** The text shown while editing: no symbols or grouping, the locale's decimal separator */
+export const formatNumberInput = (value: number | null, format: NumberInputFormat) => {
+  if (value === null) return '';
+  return new Intl.NumberFormat(format.locale, {
+    useGrouping: false,
+    maximumFractionDigits: resolvePrecision(format) ?? MAX_FRACTION_DIGITS,
+  }).format(value * getNumberScale(format));
+};
+
+/**
+ * Reads a number typed for the locale, such as `1.234,56` in German. Group separators,
+ * spaces and symbols are ignored. Returns null for empty input and NaN when it is not a number.
+ */
+export const parseNumberInput = (text: string, format: NumberInputFormat) => {
+  const { group, decimal } = getNumberSeparators(format.locale);
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const negative = /^[-−(]|[-−)]$/.test(trimmed.replace(/[^\d\-−().,]/g, ''));
+  const digits = trimmed
+    .split(group)
+    .join('')
+    .replace(/\s/g, '')
+    .split(decimal)
+    .map(part => part.replace(/\D/g, ''));
+  if (digits.length > 2 || digits.every(part => part === '')) return NaN;
+
+  const value = Number(`${negative ? '-' : ''}${digits[0] || '0'}.${digits[1] ?? ''}`) / getNumberScale(format);
+  return Number.isFinite(value) ? value : NaN;
+};
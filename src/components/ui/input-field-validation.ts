@@ -0,0 +1,79 @@
+import type { ZodTypeAny } from 'zod';
+
+/** The text as shown, or in numeric mode the number (null when empty) */
+export type InputValidationValue = string | number | null;
+
+/**
+ * Returns an error message, or nothing when the value is fine; `false` fails with a generic
+ * message. May be async, e.g. to ask a server whether a username is taken. `signal` aborts
+ * when a newer value is validated, so stale requests can be cancelled.
+ */
+export type InputValidator = (
+  value: InputValidationValue,
+  signal: AbortSignal
+) => string | boolean | null | undefined | void | Promise<string | boolean | null | undefined | void>;
+
+/** A validator function or a zod schema, whose first issue becomes the error */
+export type InputValidate = InputValidator | ZodTypeAny;
+
+/**
+ * `onChange` validates every change, `onBlur` when the field loses focus and `debounced`
+ * once typing pauses. After a failed check on blur, changes validate immediately so the
+ * error clears as soon as the value is fixed.
+ */
+export type InputValidationTrigger = 'onChange' | 'onBlur' | 'debounced';
+
+export type InputValidationStatus = 'idle' | 'validating' | 'valid' | 'invalid';
+
+export interface InputValidationState {
+  status: InputValidationStatus;
+  error?: string;
+}
+
+export const DEFAULT_VALIDATION_DEBOUNCE = 400;
+
+const INVALID_MESSAGE = 'Invalid value';
+
+const isSchema = (validate: InputValidate): validate is ZodTypeAny =>
+  typeof validate === 'object' && validate !== null && 'safeParseAsync' in validate;
+
+const toValidationResult = (result: string | boolean | null | undefined | void): InputValidationState => {
+  if (typeof result === 'string' && result) return { status: 'invalid', error: result };
+  if (result === false) return { status: 'invalid', error: INVALID_MESSAGE };
+  return { status: 'valid' };
+};
+
+const fromSchemaResult = (result: ReturnType<ZodTypeAny['safeParse']>): InputValidationState =>
+  result.success ? { status: 'valid' } : { status: 'invalid', error: result.error.issues[0]?.message ?? INVALID_MESSAGE };
+
+/**
+ * Runs a validator or schema. Synchronous checks return their result directly so the field
+ * never flashes a loading state; async ones return a promise. A thrown error, such as a
+ * failed request, becomes the error message.
+ */
+export const runInputValidation = (
+  validate: InputValidate,
+  value: InputValidationValue,
+  signal: AbortSignal
+): InputValidationState | Promise<InputValidationState> => {
+  const fail = (error: unknown): InputValidationState => ({
+    status: 'invalid',
+    error: error instanceof Error && error.message ? error.message : 'Validation failed',
+  });
+
+  if (isSchema(validate)) {
+    try {
+      return fromSchemaResult(validate.safeParse(value));
+    } catch {
+      // Schemas with async refinements can only be parsed asynchronously
+      return validate.safeParseAsync(value).then(fromSchemaResult, fail);
+    }
+  }
+
+  try {
+    const result = validate(value, signal);
+    return result instanceof Promise ? result.then(toValidationResult, fail) : toValidationResult(result);
+  } catch (error) {
+    return fail(error);
+  }
+};
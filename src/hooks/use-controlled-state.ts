@@ -0,0 +1,38 @@
+import { useCallback, useRef, useState } from 'react';
+
+/**
+ * State that can be owned either by the component or by its parent.
+ * When `value` is not `undefined` the parent is in control and updates are
+ * only reported through `onChange`; otherwise the hook keeps its own copy.
+ */
+export function useControlledState<T>(
+  value: T | undefined,
+  defaultValue: T | (() => T),
+  onChange?: (value: T) => void
+) {
+  const [internalValue, setInternalValue] = useState<T>(defaultValue);
+  const isControlled = value !== undefined;
+  const currentValue = isControlled ? value : internalValue;
+
+  // Keep the latest value around so functional updates never see stale state
+  const valueRef = useRef(currentValue);
+  valueRef.current = currentValue;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const setValue = useCallback(
+    (next: T | ((current: T) => T)) => {
+      const resolved =
+        typeof next === 'function' ? (next as (current: T) => T)(valueRef.current) : next;
+      if (Object.is(resolved, valueRef.current)) return;
+      valueRef.current = resolved;
+      if (!isControlled) {
+        setInternalValue(resolved);
+      }
+      onChangeRef.current?.(resolved);
+    },
+    [isControlled]
+  );
+
+  return [currentValue, setValue] as const;
+}
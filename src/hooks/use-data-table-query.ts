@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { keepPreviousData, useQuery, type QueryKey } from '@tanstack/react-query';
+import type { DataTableFilters, DataTableProps, SortConfig } from '@/components/ui/DataTable';
+
+export interface DataTableQueryParams<T> {
+  /** Every active sort in priority order. */
+  sortStack: SortConfig<T>[];
+  /** The primary sort, for APIs that only sort by one column. */
+  sortConfig: SortConfig<T> | null;
+  pageIndex: number;
+  pageSize: number;
+  filters: DataTableFilters;
+  globalFilter: string;
+}
+
+export interface DataTablePage<T> {
+  rows: T[];
+  totalCount: number;
+}
+
+export interface UseDataTableQueryOptions<T> {
+  /** Base query key. The current table params are appended to it. */
+  queryKey: QueryKey;
+  queryFn: (params: DataTableQueryParams<T>, context: { signal: AbortSignal }) => Promise<DataTablePage<T>>;
+  initialSortStack?: SortConfig<T>[];
+  initialPageSize?: number;
+  initialFilters?: DataTableFilters;
+  enabled?: boolean;
+}
+
+/**
+ * Drives a `DataTable` in manual mode from a paginated API through react-query.
+ * Owns the sort, page and filter state, refetches whenever it changes and keeps
+ * the previous page on screen while the next one loads. Failed requests show the
+ * table's error state with a retry button.
+ *
+ * @example
+ * const { tableProps } = useDataTableQuery<User>({
+ *   queryKey: ['users'],
+ *   queryFn: (params, { signal }) => fetchUsers(params, signal),
+ * });
+ *
+ * <DataTable columns={columns} {...tableProps} />
+ */
+export function useDataTableQuery<T>({
+  queryKey,
+  queryFn,
+  initialSortStack = [],
+  initialPageSize = 10,
+  initialFilters = {},
+  enabled = true,
+}: UseDataTableQueryOptions<T>) {
+  const [sortStack, setSortStack] = useState<SortConfig<T>[]>(initialSortStack);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [pageSize, setPageSize] = useState(initialPageSize);
+  const [filters, setFilters] = useState<DataTableFilters>(initialFilters);
+  const [globalFilter, setGlobalFilter] = useState('');
+
+  const params: DataTableQueryParams<T> = {
+    sortStack,
+    sortConfig: sortStack[0] ?? null,
+    pageIndex,
+    pageSize,
+    filters,
+    globalFilter,
+  };
+
+  const query = useQuery({
+    queryKey: [...queryKey, params],
+    queryFn: ({ signal }) => queryFn(params, { signal }),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+
+  const onSortStackChange = (next: SortConfig<T>[]) => {
+    setSortStack(next);
+    setPageIndex(0);
+  };
+
+  const onPageChange = (nextPageIndex: number, nextPageSize: number) => {
+    setPageIndex(nextPageIndex);
+    setPageSize(nextPageSize);
+  };
+
+  const onFilterChange = (next: DataTableFilters) => {
+    setFilters(next);
+    setPageIndex(0);
+  };
+
+  const onGlobalFilterChange = (next: string) => {
+    setGlobalFilter(next);
+    setPageIndex(0);
+  };
+
+  const tableProps = {
+    manual: true,
+    data: query.data?.rows ?? [],
+    totalCount: query.data?.totalCount ?? 0,
+    // Skeleton rows on the first load, then a refreshing overlay over the previous page
+    loading: query.isFetching,
+    error: query.error,
+    onRetry: () => {
+      query.refetch();
+    },
+    sortStack,
+    onSortStackChange,
+    pageIndex,
+    pageSize,
+    onPageChange,
+    filters,
+    onFilterChange,
+    globalFilter,
+    onGlobalFilterChange,
+  } satisfies Partial<DataTableProps<T>>;
+
+  return { tableProps, query, params };
+}
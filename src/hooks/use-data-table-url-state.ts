@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { Column, DataTableFilters, DataTableProps, SortConfig } from '@/components/ui/DataTable';
+import { EMPTY_COLUMN_LAYOUT, type DataTableColumnLayout } from '@/components/ui/data-table-columns';
+import {
+  parseTableState,
+  writeTableState,
+  type DataTableUrlDefaults,
+  type DataTableUrlState,
+} from '@/components/ui/data-table-url-state';
+
+export interface UseDataTableUrlStateOptions<T> {
+  /** The table's columns, used to validate keys and to encode each filter type. Keep them stable. */
+  columns: Column<T>[];
+  /** Prepended to every param name, to keep several tables on one page apart. */
+  prefix?: string;
+  /** Sort used when the URL has none. Read on the first render. */
+  defaultSortStack?: SortConfig<T>[];
+  /** Page size used when the URL has none. Read on the first render. */
+  defaultPageSize?: number;
+  /** Milliseconds of quiet before search input is written to the URL. Defaults to 300. */
+  searchDebounce?: number;
+  /** Replace the current history entry instead of pushing one per change. */
+  replace?: boolean;
+}
+
+/**
+ * Binds a `DataTable`'s sort, filters, search, page and hidden columns to the URL search
+ * params, so a view can be shared as a link and back/forward steps through earlier views.
+ * Needs a react-router router above it. Search input updates the table immediately and
+ * the URL once typing pauses.
+ *
+ * @example
+ * const { tableProps } = useDataTableUrlState<User>({ columns });
+ *
+ * <DataTable data={users} columns={columns} searchable columnControls {...tableProps} />
+ */
+export function useDataTableUrlState<T>({
+  columns,
+  prefix = '',
+  defaultSortStack = [],
+  defaultPageSize = 10,
+  searchDebounce = 300,
+  replace = false,
+}: UseDataTableUrlStateOptions<T>) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [defaults] = useState<DataTableUrlDefaults<T>>(() => ({
+    sortStack: defaultSortStack,
+    pageSize: defaultPageSize,
+  }));
+  const state = useMemo(
+    () => parseTableState(searchParams, columns, defaults, prefix),
+    [searchParams, columns, defaults, prefix]
+  );
+
+  // The table reports a filter change and the page reset separately, so changes made in
+  // the same tick are collected and written as one navigation
+  const latestParamsRef = useRef(searchParams);
+  const pendingParamsRef = useRef<URLSearchParams | null>(null);
+
+  useEffect(() => {
+    latestParamsRef.current = searchParams;
+  }, [searchParams]);
+
+  const updateUrl = useCallback(
+    (changes: Partial<DataTableUrlState<T>>) => {
+      if (!pendingParamsRef.current) {
+        pendingParamsRef.current = new URLSearchParams(latestParamsRef.current);
+        queueMicrotask(() => {
+          const next = pendingParamsRef.current;
+          pendingParamsRef.current = null;
+          if (next.toString() === latestParamsRef.current.toString()) return;
+          latestParamsRef.current = next;
+          setSearchParams(next, { replace });
+        });
+      }
+      writeTableState(pendingParamsRef.current, changes, columns, defaults, prefix);
+    },
+    [columns, defaults, prefix, replace, setSearchParams]
+  );
+
+  const [searchInput, setSearchInput] = useState(state.globalFilter);
+  const searchTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  // Back/forward and other outside changes replace the search input, unless the user is still typing
+  useEffect(() => {
+    if (!searchTimerRef.current) setSearchInput(state.globalFilter);
+  }, [state.globalFilter]);
+
+  useEffect(() => () => clearTimeout(searchTimerRef.current), []);
+
+  // Only visibility is part of the link; order, widths and pins stay local
+  const [columnLayout, setColumnLayout] = useState<DataTableColumnLayout>(EMPTY_COLUMN_LAYOUT);
+  const tableColumnLayout = useMemo(
+    () => ({ ...columnLayout, hidden: state.hiddenColumns }),
+    [columnLayout, state.hiddenColumns]
+  );
+
+  const onSortStackChange = (sortStack: SortConfig<T>[]) => updateUrl({ sortStack, pageIndex: 0 });
+
+  const onPageChange = (pageIndex: number, pageSize: number) => updateUrl({ pageIndex, pageSize });
+
+  const onFilterChange = (filters: DataTableFilters) => updateUrl({ filters, pageIndex: 0 });
+
+  const onGlobalFilterChange = (globalFilter: string) => {
+    setSearchInput(globalFilter);
+    clearTimeout(searchTimerRef.current);
+    searchTimerRef.current = setTimeout(() => {
+      searchTimerRef.current = undefined;
+      updateUrl({ globalFilter, pageIndex: 0 });
+    }, searchDebounce);
+  };
+
+  const onColumnLayoutChange = (layout: DataTableColumnLayout) => {
+    setColumnLayout(layout);
+    if (layout.hidden.join() !== state.hiddenColumns.join()) {
+      updateUrl({ hiddenColumns: layout.hidden });
+    }
+  };
+
+  const tableProps = {
+    sortStack: state.sortStack,
+    onSortStackChange,
+    pageIndex: state.pageIndex,
+    pageSize: state.pageSize,
+    onPageChange,
+    filters: state.filters,
+    onFilterChange,
+    globalFilter: searchInput,
+    onGlobalFilterChange,
+    columnLayout: tableColumnLayout,
+    onColumnLayoutChange,
+  } satisfies Partial<DataTableProps<T>>;
+
+  // `state` follows the URL, so the search in it is the debounced one: use it for server queries
+  return { tableProps, state };
+}
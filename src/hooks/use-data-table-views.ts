@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  EMPTY_VIEW_STORE,
+  createViewId,
+  localStorageViewStorage,
+  parseViewStore,
+  type DataTableView,
+  type DataTableViewState,
+  type DataTableViewStore,
+  type DataTableViewsConfig,
+} from '@/components/ui/data-table-views';
+import { toast } from '@/hooks/use-toast';
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error && error.message ? error.message : 'Something went wrong';
+
+/**
+ * Loads a table's saved views through the configured storage and saves every change
+ * back. Changes show immediately; a failed save is reported in a toast. `onLoad` runs
+ * once the stored views are read, e.g. to apply the default view. Does nothing without
+ * a config.
+ */
+export function useDataTableViews(
+  config: DataTableViewsConfig | undefined,
+  onLoad?: (store: DataTableViewStore) => void
+) {
+  const storageKey = config?.storageKey;
+  const storageRef = useRef(config?.storage ?? localStorageViewStorage);
+  const onLoadRef = useRef(onLoad);
+  const [store, setStore] = useState<DataTableViewStore>(EMPTY_VIEW_STORE);
+  // Latest store, so several changes in one tick build on each other rather than on the render's copy
+  const storeRef = useRef(store);
+
+  useEffect(() => {
+    storageRef.current = config?.storage ?? localStorageViewStorage;
+    onLoadRef.current = onLoad;
+  });
+
+  useEffect(() => {
+    storeRef.current = EMPTY_VIEW_STORE;
+    setStore(EMPTY_VIEW_STORE);
+    if (!storageKey) return;
+
+    let cancelled = false;
+    Promise.resolve()
+      .then(() => storageRef.current.load(storageKey))
+      .then(
+        stored => {
+          if (cancelled) return;
+          const next = parseViewStore(stored);
+          storeRef.current = next;
+          setStore(next);
+          onLoadRef.current?.(next);
+        },
+        error => {
+          if (cancelled) return;
+          toast({ variant: 'destructive', title: "Couldn't load saved views", description: errorMessage(error) });
+        }
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey]);
+
+  const commit = (update: (current: DataTableViewStore) => DataTableViewStore) => {
+    const next = update(storeRef.current);
+    storeRef.current = next;
+    setStore(next);
+    Promise.resolve()
+      .then(() => storageRef.current.save(storageKey, next))
+      .catch(error => toast({ variant: 'destructive', title: "Couldn't save views", description: errorMessage(error) }));
+  };
+
+  const updateView = (id: string, changes: Partial<Omit<DataTableView, 'id'>>) =>
+    commit(current => ({
+      ...current,
+      views: current.views.map(view => (view.id === id ? { ...view, ...changes } : view)),
+    }));
+
+  const saveView = (name: string, state: DataTableViewState): DataTableView => {
+    const view = { id: createViewId(), name, state };
+    commit(current => ({ ...current, views: [...current.views, view] }));
+    return view;
+  };
+
+  const deleteView = (id: string) =>
+    commit(current => ({
+      views: current.views.filter(view => view.id !== id),
+      defaultViewId: current.defaultViewId === id ? null : current.defaultViewId,
+    }));
+
+  const setDefaultView = (id: string | null) => commit(current => ({ ...current, defaultViewId: id }));
+
+  return {
+    views: store.views,
+    defaultViewId: store.defaultViewId,
+    saveView,
+    updateView,
+    deleteView,
+    setDefaultView,
+  };
+}
@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_VALIDATION_DEBOUNCE,
+  runInputValidation,
+  type InputValidate,
+  type InputValidationState,
+  type InputValidationTrigger,
+  type InputValidationValue,
+} from '@/components/ui/input-field-validation';
+
+const IDLE: InputValidationState = { status: 'idle' };
+
+interface InputValidationOptions {
+  validateOn?: InputValidationTrigger;
+  debounce?: number;
+  onValidationChange?: (state: InputValidationState) => void;
+}
+
+/**
+ * Validates an input's value as it changes or blurs, according to `validateOn`. Only the
+ * latest value counts: a newer check aborts the previous one's signal and its result is
+ * ignored, and the previous result clears while a new value waits to be checked. Does
+ * nothing without a validator.
+ */
+export function useInputValidation(
+  validate: InputValidate | undefined,
+  { validateOn = 'debounced', debounce = DEFAULT_VALIDATION_DEBOUNCE, onValidationChange }: InputValidationOptions = {}
+) {
+  const [state, setState] = useState<InputValidationState>(IDLE);
+  const validateRef = useRef(validate);
+  const onValidationChangeRef = useRef(onValidationChange);
+  const controllerRef = useRef<AbortController | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Value waiting for the debounce, so a blur can validate it straight away
+  const pendingRef = useRef<{ value: InputValidationValue } | null>(null);
+
+  useEffect(() => {
+    validateRef.current = validate;
+    onValidationChangeRef.current = onValidationChange;
+  });
+
+  const update = (next: InputValidationState) => {
+    setState(next);
+    onValidationChangeRef.current?.(next);
+  };
+
+  const cancel = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    pendingRef.current = null;
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  };
+
+  useEffect(() => cancel, []);
+
+  const run = (value: InputValidationValue) => {
+    cancel();
+    if (!validateRef.current) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const result = runInputValidation(validateRef.current, value, controller.signal);
+    if (!(result instanceof Promise)) {
+      update(result);
+      return;
+    }
+    update({ status: 'validating' });
+    result.then(next => {
+      if (controllerRef.current !== controller) return;
+      controllerRef.current = null;
+      update(next);
+    });
+  };
+
+  // The last result belongs to the previous value, so it clears until the new one is checked
+  const reset = () => {
+    cancel();
+    if (state.status !== 'idle') update(IDLE);
+  };
+
+  const schedule = (value: InputValidationValue) => {
+    reset();
+    pendingRef.current = { value };
+    timerRef.current = setTimeout(() => run(value), debounce);
+  };
+
+  const handleChange = (value: InputValidationValue) => {
+    if (!validateRef.current) return;
+    if (validateOn === 'onChange' || (validateOn === 'onBlur' && state.status === 'invalid')) {
+      run(value);
+    } else if (validateOn === 'debounced') {
+      schedule(value);
+    } else {
+      reset();
+    }
+  };
+
+  const handleBlur = (value: InputValidationValue) => {
+    if (!validateRef.current) return;
+    if (validateOn === 'onBlur') {
+      run(value);
+    } else if (pendingRef.current) {
+      run(pendingRef.current.value);
+    }
+  };
+
+  return { ...(validate ? state : IDLE), handleChange, handleBlur };
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState, type RefObject } from 'react';
+
+export interface ScrollOverflow {
+  top: boolean;
+  bottom: boolean;
+  left: boolean;
+  right: boolean;
+}
+
+const NO_OVERFLOW: ScrollOverflow = { top: false, bottom: false, left: false, right: false };
+
+/**
+ * Which edges of a scroll container have content scrolled out of view, for drawing
+ * overflow shadows. Updates on scroll and when the container or its content resizes.
+ */
+export function useScrollOverflow(ref: RefObject<HTMLElement>, enabled = true) {
+  const [overflow, setOverflow] = useState<ScrollOverflow>(NO_OVERFLOW);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !enabled) {
+      setOverflow(NO_OVERFLOW);
+      return;
+    }
+
+    const update = () => {
+      // Allow a pixel of rounding on high-DPI screens
+      const next = {
+        top: element.scrollTop > 0,
+        bottom: element.scrollTop + element.clientHeight < element.scrollHeight - 1,
+        left: element.scrollLeft > 0,
+        right: element.scrollLeft + element.clientWidth < element.scrollWidth - 1,
+      };
+      // Scroll events are frequent, so only re-render when an edge changes
+      setOverflow(current =>
+        current.top === next.top &&
+        current.bottom === next.bottom &&
+        current.left === next.left &&
+        current.right === next.right
+          ? current
+          : next
+      );
+    };
+
+    update();
+    element.addEventListener('scroll', update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    if (element.firstElementChild) observer.observe(element.firstElementChild);
+    return () => {
+      element.removeEventListener('scroll', update);
+      observer.disconnect();
+    };
+  }, [ref, enabled]);
+
+  return overflow;
+}